@@ -8,7 +8,6 @@ namespace LineTool
 {
     using System.Collections.Generic;
     using Colossal.Mathematics;
-    using Game.Net;
     using Game.Rendering;
     using Game.Simulation;
     using Unity.Mathematics;
@@ -22,6 +21,7 @@ namespace LineTool
     {
         // Calculated circle Bezier parts.
         private readonly Bezier4x3[] _overlayBeziers = new Bezier4x3[4];
+        private int _overlayBezierCount = 0;
         private bool _validOverlayBezier = false;
 
         /// <summary>
@@ -36,21 +36,50 @@ namespace LineTool
         {
         }
 
+        /// <summary>
+        /// Calculates the points to use based on this mode, as a full circle starting from the cursor direction.
+        /// </summary>
+        /// <param name="currentPos">Selection current position.</param>
+        /// <param name="spacingMode">Active spacing mode.</param>
+        /// <param name="rotationMode">Active rotation mode.</param>
+        /// <param name="elevation">Active elevation settings.</param>
+        /// <param name="parallelRows">Active parallel row settings.</param>
+        /// <param name="spacing">Spacing distance.</param>
+        /// <param name="placementCount">Number of items to place (for count mode).</param>
+        /// <param name="randomSpacing">Random spacing offset maximum.</param>
+        /// <param name="randomOffset">Random lateral offset maximum.</param>
+        /// <param name="randomSeed">Random seed for spacing and offset variation.</param>
+        /// <param name="rotation">Rotation setting.</param>
+        /// <param name="zBounds">Prefab zBounds.</param>
+        /// <param name="pointList">List of points to populate.</param>
+        /// <param name="heightData">Terrain height data reference.</param>
+        public override void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationSettings elevation, ParallelRowSettings parallelRows, float spacing, int placementCount, float randomSpacing, float randomOffset, int randomSeed, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
+        {
+            CalculatePoints(currentPos, spacingMode, rotationMode, elevation, parallelRows, spacing, placementCount, 360, false, 0, randomSpacing, randomOffset, randomSeed, rotation, zBounds, pointList, ref heightData);
+        }
+
         /// <summary>
         /// Calculates the points to use based on this mode.
+        /// Arcs are swept anticlockwise (when viewed from above) from the start angle.
         /// </summary>
         /// <param name="currentPos">Selection current position.</param>
         /// <param name="spacingMode">Active spacing mode.</param>
         /// <param name="rotationMode">Active rotation mode.</param>
-        /// <param name="elevationMode">Active elevation mode.</param>
+        /// <param name="elevation">Active elevation settings.</param>
+        /// <param name="parallelRows">Active parallel row settings.</param>
         /// <param name="spacing">Spacing distance.</param>
+        /// <param name="placementCount">Number of items to place (for count mode).</param>
+        /// <param name="arcAngle">Arc sweep angle in degrees (360 for a full circle).</param>
+        /// <param name="fixedStartAngle"><c>true</c> to start at the given compass angle, <c>false</c> to start from the cursor direction.</param>
+        /// <param name="startAngle">Fixed start angle, as a compass bearing in degrees (clockwise from north).</param>
         /// <param name="randomSpacing">Random spacing offset maximum.</param>
         /// <param name="randomOffset">Random lateral offset maximum.</param>
+        /// <param name="randomSeed">Random seed for spacing and offset variation.</param>
         /// <param name="rotation">Rotation setting.</param>
         /// <param name="zBounds">Prefab zBounds.</param>
         /// <param name="pointList">List of points to populate.</param>
         /// <param name="heightData">Terrain height data reference.</param>
-        public override void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationMode elevationMode, float spacing, float randomSpacing, float randomOffset, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
+        public void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationSettings elevation, ParallelRowSettings parallelRows, float spacing, int placementCount, int arcAngle, bool fixedStartAngle, int startAngle, float randomSpacing, float randomOffset, int randomSeed, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
         {
             // Don't do anything if we don't have valid start.
             if (!m_validStart)
@@ -62,56 +91,90 @@ namespace LineTool
             float3 difference = currentPos - m_startPos;
             float radius = math.length(difference);
 
-            // Calculate circle Bezier by combining 4 curved parts.
-            _validOverlayBezier = true;
-            _overlayBeziers[0] = NetUtils.CircleCurve(m_startPos, radius, radius);
-            _overlayBeziers[1] = NetUtils.CircleCurve(m_startPos, radius * -1f, radius);
-            _overlayBeziers[2] = NetUtils.CircleCurve(m_startPos, radius, radius * -1f);
-            _overlayBeziers[3] = NetUtils.CircleCurve(m_startPos, radius * -1f, radius * -1f);
+            // Calculate arc angles (in radians, anticlockwise from the x-axis).
+            bool fullCircle = arcAngle >= 360;
+            float sweep = math.radians(math.clamp(arcAngle, 1, 360));
+            float arcStart = fixedStartAngle ? math.radians(90 - startAngle) : math.atan2(difference.z, difference.x);
 
-            // Calculate spacing.
-            float circumference = radius * math.PI * 2f;
-            float numPoints = spacingMode == SpacingMode.FullLength ? math.round(circumference / spacing) : math.floor(circumference / spacing);
-            float increment = (math.PI * 2f) / numPoints;
-            float startAngle = math.atan2(difference.z, difference.x);
-            System.Random random = new ((int)circumference * 1000);
-
-            // Calculate line start elevation if needed for elevation modes - note that for a circle, starting and ending elevations are the same.
-            float startingElevation = 0f;
-            if (elevationMode != ElevationMode.FollowTerrain)
+            // Calculate arc Bezier by combining curved parts of no more than 90 degrees each.
+            _validOverlayBezier = true;
+            _overlayBezierCount = (int)math.ceil(sweep / (math.PI / 2f) - 0.001f);
+            float partSweep = sweep / _overlayBezierCount;
+            for (int i = 0; i < _overlayBezierCount; ++i)
             {
-                startingElevation = TerrainUtils.SampleHeight(ref heightData, m_startPos);
+                _overlayBeziers[i] = ArcCurve(m_startPos, radius, arcStart + (partSweep * i), arcStart + (partSweep * (i + 1)));
             }
 
-            // Create points.
-            for (float i = startAngle; i < startAngle + (math.PI * 2f); i += increment)
+            // Calculate spacing.
+            float arcLength = radius * sweep;
+            int intervals = ArcIntervals(spacingMode, arcLength, spacing, placementCount, fullCircle);
+            CalculatedSpacing = arcLength / intervals;
+            CalculatedLength = arcLength;
+
+            // Calculate line start elevation - note that for a circle, starting and ending elevations are the same.
+            CalculateLineElevations(elevation, ref heightData, m_startPos, out float startingElevation, out _);
+
+            // Create points for each row, with parallel rows forming concentric arcs.
+            // Staggering isn't applied in fence or wall-to-wall modes, where items need to join up.
+            bool allowStagger = spacingMode != SpacingMode.FenceMode && spacingMode != SpacingMode.W2WMode;
+            m_parallelRowCurves.Clear();
+            for (int row = 0; row < parallelRows.RowCount; ++row)
             {
-                // Apply spacing adjustment.
-                float adjustedAngle = i;
-                if (randomSpacing > 0f && spacingMode != SpacingMode.FenceMode)
+                // Skip any inner rows that would have a zero or negative radius.
+                float rowRadius = radius + parallelRows.GetOffset(row);
+                if (rowRadius <= 0f)
                 {
-                    float distanceAdjustment = (float)(random.NextDouble() * randomSpacing * 2f) - randomSpacing;
-                    adjustedAngle += (distanceAdjustment * math.PI * 2f) / circumference;
+                    continue;
                 }
 
-                // Calculate point.
-                float xPos = radius * math.cos(adjustedAngle);
-                float yPos = radius * math.sin(adjustedAngle);
-                float3 thisPoint = new (m_startPos.x + xPos, m_startPos.y, m_startPos.z + yPos);
+                System.Random random = CreateRandom(randomSeed, row);
 
-                // Apply offset adjustment.
-                if (randomOffset > 0f && spacingMode != SpacingMode.FenceMode)
+                // Record row for overlay.
+                if (parallelRows.RowCount > 1)
                 {
-                    thisPoint += math.normalize(thisPoint - m_startPos) * ((float)(randomOffset * random.NextDouble() * 2f) - randomOffset);
+                    for (int i = 0; i < _overlayBezierCount; ++i)
+                    {
+                        m_parallelRowCurves.Add(ArcCurve(m_startPos, rowRadius, arcStart + (partSweep * i), arcStart + (partSweep * (i + 1))));
+                    }
                 }
 
-                thisPoint.y = CalculateElevation(elevationMode, ref heightData, thisPoint, startingElevation, startingElevation);
+                // Staggered open arcs stop short of the end, so have one fewer point.
+                bool staggered = allowStagger && parallelRows.IsStaggered(row);
+                int rowIntervals = ArcIntervals(spacingMode, rowRadius * sweep, spacing, placementCount, fullCircle);
+                int numPoints = fullCircle || staggered ? rowIntervals : rowIntervals + 1;
+                float increment = sweep / rowIntervals;
+                float rowStart = staggered ? arcStart + (increment * 0.5f) : arcStart;
+                for (int i = 0; i < numPoints; ++i)
+                {
+                    float angle = rowStart + (increment * i);
+
+                    // Apply spacing adjustment.
+                    float adjustedAngle = angle;
+                    if (randomSpacing > 0f && spacingMode != SpacingMode.FenceMode)
+                    {
+                        float distanceAdjustment = (float)(random.NextDouble() * randomSpacing * 2f) - randomSpacing;
+                        adjustedAngle += distanceAdjustment / rowRadius;
+                    }
+
+                    // Calculate point.
+                    float xPos = rowRadius * math.cos(adjustedAngle);
+                    float yPos = rowRadius * math.sin(adjustedAngle);
+                    float3 thisPoint = new (m_startPos.x + xPos, m_startPos.y, m_startPos.z + yPos);
+
+                    // Apply offset adjustment.
+                    if (randomOffset > 0f && spacingMode != SpacingMode.FenceMode)
+                    {
+                        thisPoint += math.normalize(thisPoint - m_startPos) * ((float)(randomOffset * random.NextDouble() * 2f) - randomOffset);
+                    }
+
+                    thisPoint.y = CalculateElevation(elevation.Mode, ref heightData, thisPoint, startingElevation, startingElevation);
 
-                // Calculate effective rotation.
-                float effectiveRotation = rotationMode == RotationMode.Absolute ? rotation : math.radians(rotation) - i;
+                    // Calculate effective rotation.
+                    float effectiveRotation = rotationMode == RotationMode.Absolute ? rotation : math.radians(rotation) - angle;
 
-                // Add point to list.
-                pointList.Add(new PointData { Position = thisPoint, Rotation = quaternion.Euler(0f, effectiveRotation, 0f), });
+                    // Add point to list.
+                    pointList.Add(new PointData { Position = thisPoint, Rotation = quaternion.Euler(0f, effectiveRotation, 0f), });
+                }
             }
 
             // Record end position for overlays.
@@ -134,7 +197,7 @@ namespace LineTool
                 // Draw circle overlay.
                 if (_validOverlayBezier)
                 {
-                    for (int i = 0; i < _overlayBeziers.Length; i++)
+                    for (int i = 0; i < _overlayBezierCount; i++)
                     {
                         DrawCurvedLine(_overlayBeziers[i], overlayBuffer);
                     }
@@ -158,10 +221,56 @@ namespace LineTool
         /// </summary>
         public override void ItemsPlaced()
         {
-            // Invalidate overlay Bezier.
+            // Invalidate overlay Beziers.
             _validOverlayBezier = false;
+            m_parallelRowCurves.Clear();
 
             // Otherwise empty, with no call to Base, to retain original start position (centre of circle).
         }
+
+        /// <summary>
+        /// Calculates the number of spacing intervals for an arc of the given length.
+        /// A full circle has as many intervals as points, while an open arc has one fewer interval than points (with points at both ends).
+        /// </summary>
+        /// <param name="spacingMode">Active spacing mode.</param>
+        /// <param name="arcLength">Arc length.</param>
+        /// <param name="spacing">Spacing distance.</param>
+        /// <param name="placementCount">Number of items to place (for count mode).</param>
+        /// <param name="fullCircle"><c>true</c> if the arc is a full circle, <c>false</c> otherwise.</param>
+        /// <returns>Number of intervals (always at least one).</returns>
+        private static int ArcIntervals(SpacingMode spacingMode, float arcLength, float spacing, int placementCount, bool fullCircle)
+        {
+            int intervals = spacingMode switch
+            {
+                SpacingMode.FullLength => (int)math.round(arcLength / spacing),
+                SpacingMode.Count => fullCircle ? placementCount : placementCount - 1,
+                _ => (int)math.floor(arcLength / spacing),
+            };
+
+            return math.max(intervals, 1);
+        }
+
+        /// <summary>
+        /// Calculates a Bezier curve approximating a circular arc of no more than 90 degrees.
+        /// </summary>
+        /// <param name="centre">Circle centre.</param>
+        /// <param name="radius">Circle radius.</param>
+        /// <param name="startAngle">Arc start angle (in radians, anticlockwise from the x-axis).</param>
+        /// <param name="endAngle">Arc end angle (in radians, anticlockwise from the x-axis).</param>
+        /// <returns>Arc Bezier curve.</returns>
+        private static Bezier4x3 ArcCurve(float3 centre, float radius, float startAngle, float endAngle)
+        {
+            // Standard cubic Bezier circular arc approximation.
+            float handleLength = radius * 4f / 3f * math.tan((endAngle - startAngle) / 4f);
+            float3 startDirection = new (math.cos(startAngle), 0f, math.sin(startAngle));
+            float3 endDirection = new (math.cos(endAngle), 0f, math.sin(endAngle));
+            float3 startPoint = centre + (startDirection * radius);
+            float3 endPoint = centre + (endDirection * radius);
+            return new Bezier4x3(
+                startPoint,
+                startPoint + (new float3(-startDirection.z, 0f, startDirection.x) * handleLength),
+                endPoint - (new float3(-endDirection.z, 0f, endDirection.x) * handleLength),
+                endPoint);
+        }
     }
 }
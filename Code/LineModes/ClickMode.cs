@@ -25,5 +25,10 @@ namespace LineTool
         /// Placement.
         /// </summary>
         Placed,
+
+        /// <summary>
+        /// Click ignored (no valid position for the current mode).
+        /// </summary>
+        Ignored,
     }
 }
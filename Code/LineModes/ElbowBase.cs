@@ -120,6 +120,21 @@ namespace LineTool
             }
         }
 
+        /// <summary>
+        /// Adds the current line control points (in order from start to end) to the given list.
+        /// </summary>
+        /// <param name="controlPoints">List of control points to populate.</param>
+        public override void GetControlPoints(List<float3> controlPoints)
+        {
+            controlPoints.Add(m_startPos);
+            if (ValidElbow)
+            {
+                controlPoints.Add(ElbowPoint);
+            }
+
+            controlPoints.Add(m_endPos);
+        }
+
         /// <summary>
         /// Clears the current selection.
         /// </summary>
@@ -173,39 +188,7 @@ namespace LineTool
                 // If a there's a valid elbow position and the alt key is pressed, perform any angle constraints.
                 if (ValidElbow && Keyboard.current.altKey.isPressed)
                 {
-                    // Get 2D length of the vector to the cursor position.
-                    float elbowToCurrentLength = math.distance(ElbowPoint.xz, startPos.xz);
-
-                    // Get the normalised direction of the base line.
-                    float3 direction = math.normalize(m_startPos - ElbowPoint);
-                    direction.y = 0f;
-
-                    // Determine angle using dot product formula for normalized vectors: a . b = cos(angle).
-                    // Control for invalid values by clamping dot product to (-1, 1) and treating any NaN as zero.
-                    float dotProduct = math.clamp(math.dot(math.normalize(startPos - ElbowPoint).xz, direction.xz), -1f, 1f);
-                    if (float.IsNaN(dotProduct))
-                    {
-                        dotProduct = 0;
-                    }
-
-                    // Get raw angle between lines from dot product and snap to increments of 15 degrees.
-                    int angleDegrees = (int)math.round(math.degrees(math.acos(dotProduct)));
-                    angleDegrees = (int)math.round(angleDegrees / 15f) * 15;
-
-                    // Use custom cross product to determine if the cursor point is to the left- or right- side of the base line.
-                    float crossProduct = ((ElbowPoint.x - m_startPos.x) * (startPos.z - m_startPos.z)) - ((ElbowPoint.z - m_startPos.z) * (startPos.x - m_startPos.x));
-                    if (crossProduct < 0)
-                    {
-                        // If the cross product is negative, the current point is to the right of the line and we need to invert the angle.
-                        angleDegrees = 360 - angleDegrees;
-                    }
-
-                    // Rotate original vector direction around the Y axis.
-                    Quaternion q = quaternion.Euler(0f, math.radians(angleDegrees), 0f);
-                    float3 rotatedVector = q * direction;
-
-                    // Set the clamped position by extrapolation from the elbow point.
-                    return ElbowPoint + (rotatedVector * elbowToCurrentLength);
+                    return ConstrainAngle(startPos, m_startPos, ElbowPoint);
                 }
                 else if (!ValidElbow && _validPreviousElbow)
                 {
@@ -257,6 +240,50 @@ namespace LineTool
             }
         }
 
+        /// <summary>
+        /// Constrains the given position to the nearest 15-degree angle from the line between the given line start and elbow positions.
+        /// </summary>
+        /// <param name="currentPos">World position to constrain.</param>
+        /// <param name="lineStartPos">Start position of the base line.</param>
+        /// <param name="elbowPos">Elbow position (the end of the base line).</param>
+        /// <returns>Constrained world position.</returns>
+        protected float3 ConstrainAngle(float3 currentPos, float3 lineStartPos, float3 elbowPos)
+        {
+            // Get 2D length of the vector to the cursor position.
+            float elbowToCurrentLength = math.distance(elbowPos.xz, currentPos.xz);
+
+            // Get the normalised direction of the base line.
+            float3 direction = math.normalize(lineStartPos - elbowPos);
+            direction.y = 0f;
+
+            // Determine angle using dot product formula for normalized vectors: a . b = cos(angle).
+            // Control for invalid values by clamping dot product to (-1, 1) and treating any NaN as zero.
+            float dotProduct = math.clamp(math.dot(math.normalize(currentPos - elbowPos).xz, direction.xz), -1f, 1f);
+            if (float.IsNaN(dotProduct))
+            {
+                dotProduct = 0;
+            }
+
+            // Get raw angle between lines from dot product and snap to increments of 15 degrees.
+            int angleDegrees = (int)math.round(math.degrees(math.acos(dotProduct)));
+            angleDegrees = (int)math.round(angleDegrees / 15f) * 15;
+
+            // Use custom cross product to determine if the cursor point is to the left- or right- side of the base line.
+            float crossProduct = ((elbowPos.x - lineStartPos.x) * (currentPos.z - lineStartPos.z)) - ((elbowPos.z - lineStartPos.z) * (currentPos.x - lineStartPos.x));
+            if (crossProduct < 0)
+            {
+                // If the cross product is negative, the current point is to the right of the line and we need to invert the angle.
+                angleDegrees = 360 - angleDegrees;
+            }
+
+            // Rotate original vector direction around the Y axis.
+            Quaternion q = quaternion.Euler(0f, math.radians(angleDegrees), 0f);
+            float3 rotatedVector = q * direction;
+
+            // Set the clamped position by extrapolation from the elbow point.
+            return elbowPos + (rotatedVector * elbowToCurrentLength);
+        }
+
         /// <summary>
         /// Draws an angle indicator between two lines.
         /// </summary>
@@ -17,12 +17,12 @@ namespace LineTool
         FollowTerrain,
 
         /// <summary>
-        /// Fixed elevation (terrain elevation at start).
+        /// Fixed elevation (terrain elevation at start plus an offset, or an absolute height).
         /// </summary>
         Fixed,
 
         /// <summary>
-        /// Constant slope from start to end terrain elevation.
+        /// Constant slope from start to end elevation (terrain elevation, fixed heights, or a fixed gradient).
         /// </summary>
         ConstantSlope,
     }
@@ -0,0 +1,60 @@
+﻿// <copyright file="ElevationSettings.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    /// <summary>
+    /// Data struct for line elevation settings.
+    /// </summary>
+    public struct ElevationSettings
+    {
+        /// <summary>
+        /// Elevation mode.
+        /// </summary>
+        public ElevationMode Mode;
+
+        /// <summary>
+        /// Fixed elevation mode height; an absolute height if <see cref="FixedHeightAbsolute"/> is set, otherwise an offset above the terrain at the line start.
+        /// </summary>
+        public float FixedHeight;
+
+        /// <summary>
+        /// Whether the fixed elevation mode height is absolute (<c>true</c>) or relative to the terrain at the line start (<c>false</c>).
+        /// </summary>
+        public bool FixedHeightAbsolute;
+
+        /// <summary>
+        /// Constant slope mode starting height (if <see cref="StartHeightFixed"/> is set).
+        /// </summary>
+        public float StartHeight;
+
+        /// <summary>
+        /// Whether the constant slope mode starting height is fixed (<c>true</c>) or taken from the terrain (<c>false</c>).
+        /// </summary>
+        public bool StartHeightFixed;
+
+        /// <summary>
+        /// Constant slope mode ending height (if <see cref="EndHeightFixed"/> is set).
+        /// </summary>
+        public float EndHeight;
+
+        /// <summary>
+        /// Whether the constant slope mode ending height is fixed (<c>true</c>) or taken from the terrain (<c>false</c>).
+        /// Ignored if <see cref="SlopeFixed"/> is set.
+        /// </summary>
+        public bool EndHeightFixed;
+
+        /// <summary>
+        /// Constant slope mode gradient, in percent (if <see cref="SlopeFixed"/> is set).
+        /// </summary>
+        public float SlopePercent;
+
+        /// <summary>
+        /// Whether the constant slope mode gradient is fixed (<c>true</c>) or calculated from the starting and ending heights (<c>false</c>).
+        /// </summary>
+        public bool SlopeFixed;
+    }
+}
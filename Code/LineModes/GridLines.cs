@@ -41,20 +41,63 @@ namespace LineTool
         }
 
         /// <summary>
-        /// Calculates the points to use based on this mode.
+        /// Gets the number of columns (items along each row) in the most recent point calculation.
+        /// </summary>
+        public int ColumnCount { get; private set; }
+
+        /// <summary>
+        /// Gets the number of rows in the most recent point calculation.
+        /// </summary>
+        public int RowCount { get; private set; }
+
+        /// <summary>
+        /// Gets the actual spacing between rows used in the most recent point calculation.
+        /// </summary>
+        public float CalculatedRowSpacing { get; private set; }
+
+        /// <summary>
+        /// Calculates the points to use based on this mode, using the same spacing along and across rows.
         /// </summary>
         /// <param name="currentPos">Selection current position.</param>
         /// <param name="spacingMode">Active spacing mode.</param>
         /// <param name="rotationMode">Active rotation mode.</param>
-        /// <param name="elevationMode">Active elevation mode.</param>
+        /// <param name="elevation">Active elevation settings.</param>
+        /// <param name="parallelRows">Active parallel row settings (not used for grids).</param>
         /// <param name="spacing">Spacing distance.</param>
+        /// <param name="placementCount">Number of items to place (for count mode).</param>
+        /// <param name="randomSpacing">Random spacing offset maximum.</param>
+        /// <param name="randomOffset">Random lateral offset maximum.</param>
+        /// <param name="randomSeed">Random seed for spacing and offset variation.</param>
+        /// <param name="rotation">Rotation setting.</param>
+        /// <param name="zBounds">Prefab zBounds.</param>
+        /// <param name="pointList">List of points to populate.</param>
+        /// <param name="heightData">Terrain height data reference.</param>
+        public override void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationSettings elevation, ParallelRowSettings parallelRows, float spacing, int placementCount, float randomSpacing, float randomOffset, int randomSeed, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
+        {
+            // Use the base spacing setting for rows if fence or wall-to-wall mode is active.
+            float rowSpacing = spacingMode == SpacingMode.FenceMode || spacingMode == SpacingMode.W2WMode ? LineToolSystem.Instance.Spacing : spacing;
+            CalculatePoints(currentPos, spacingMode, rotationMode, elevation, spacing, rowSpacing, 0, 0, randomSpacing, randomOffset, randomSeed, rotation, zBounds, pointList, ref heightData);
+        }
+
+        /// <summary>
+        /// Calculates the points to use based on this mode.
+        /// </summary>
+        /// <param name="currentPos">Selection current position.</param>
+        /// <param name="spacingMode">Active spacing mode.</param>
+        /// <param name="rotationMode">Active rotation mode.</param>
+        /// <param name="elevation">Active elevation settings.</param>
+        /// <param name="spacing">Spacing distance along each row (base line).</param>
+        /// <param name="rowSpacing">Spacing distance between rows (side line).</param>
+        /// <param name="columnCount">Fixed number of items along each row (0 for none).</param>
+        /// <param name="rowCount">Fixed number of rows (0 for none).</param>
         /// <param name="randomSpacing">Random spacing offset maximum.</param>
         /// <param name="randomOffset">Random lateral offset maximum.</param>
+        /// <param name="randomSeed">Random seed for spacing and offset variation.</param>
         /// <param name="rotation">Rotation setting.</param>
         /// <param name="zBounds">Prefab zBounds.</param>
         /// <param name="pointList">List of points to populate.</param>
         /// <param name="heightData">Terrain height data reference.</param>
-        public override void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationMode elevationMode, float spacing, float randomSpacing, float randomOffset, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
+        public void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationSettings elevation, float spacing, float rowSpacing, int columnCount, int rowCount, float randomSpacing, float randomOffset, int randomSeed, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
         {
             // Don't do anything if we don't have valid start.
             if (!m_validStart)
@@ -62,10 +105,13 @@ namespace LineTool
                 return;
             }
 
-            // If we have a valid start but no valid elbow, just draw a straight line.
+            // If we have a valid start but no valid elbow, just draw a straight line (a single row).
             if (!ValidElbow)
             {
-                base.CalculatePoints(currentPos, spacingMode, rotationMode, elevationMode, spacing, randomSpacing, randomOffset, rotation, zBounds, pointList, ref heightData);
+                base.CalculatePoints(currentPos, spacingMode, rotationMode, elevation, default, spacing, 0, randomSpacing, randomOffset, randomSeed, rotation, zBounds, pointList, ref heightData);
+                ColumnCount = pointList.Count;
+                RowCount = 1;
+                CalculatedRowSpacing = 0f;
                 return;
             }
 
@@ -73,7 +119,7 @@ namespace LineTool
             float3 baseLine = ElbowPoint - m_startPos;
             float baseLength = math.length(baseLine);
             float sideLength = math.length(currentPos - ElbowPoint);
-            System.Random random = new ((int)baseLength * 1000);
+            System.Random random = CreateRandom(randomSeed, 0);
 
             // Calculate base line angle (for absolute/relative rotation).
             float baseAngle = rotationMode == RotationMode.Absolute ? 0f : math.atan2(baseLine.x, baseLine.z);
@@ -89,29 +135,48 @@ namespace LineTool
             // Rotation quaternion.
             quaternion qRotation = quaternion.Euler(0f, appliedRotation, 0f);
 
-            // Apply spacing setting to side spacing if fence or all-to-wall mode is active.
-            float sideSpacing = spacing;
-            if (spacingMode == SpacingMode.FenceMode || spacingMode == SpacingMode.W2WMode)
-            {
-                sideSpacing = LineToolSystem.Instance.Spacing;
-            }
-
             // Calculate even full-length spacing if needed.
+            float sideSpacing = rowSpacing;
             if (spacingMode == SpacingMode.FullLength)
             {
                 spacing = baseLength / math.round(baseLength / spacing);
                 sideSpacing = sideLength / math.round(sideLength / sideSpacing);
             }
 
+            // Apply any fixed column and row counts (a single column or row is placed at the start of the line).
+            // Column counts don't apply in fence or wall-to-wall modes, where spacing along the row is determined by the object size.
+            if (columnCount > 0 && spacingMode != SpacingMode.FenceMode && spacingMode != SpacingMode.W2WMode)
+            {
+                spacing = columnCount > 1 ? baseLength / (columnCount - 1) : baseLength * 2f;
+            }
+
+            if (rowCount > 0)
+            {
+                sideSpacing = rowCount > 1 ? sideLength / (rowCount - 1) : sideLength * 2f;
+            }
+
+            CalculatedSpacing = spacing;
+            CalculatedLength = baseLength;
+            CalculatedRowSpacing = sideSpacing;
+
             // Calculate Lerp step sizes.
             float baseStep = spacing / baseLength;
             float sideStep = sideSpacing / sideLength;
 
             // Iterate through base and side lines for placement.
+            ColumnCount = 0;
+            RowCount = 0;
             for (float baseProportion = 0; baseProportion < 1.001f; baseProportion += baseStep)
             {
+                ++ColumnCount;
                 for (float sideProportion = 0; sideProportion < 1.001f; sideProportion += sideStep)
                 {
+                    // Record row count from the first column.
+                    if (ColumnCount == 1)
+                    {
+                        ++RowCount;
+                    }
+
                     // Implement random spacing and/or offset.
                     float spacingAdjustment = 0f;
                     float offsetAdjustment = 0f;
@@ -0,0 +1,177 @@
+// <copyright file="ImportedLayout.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    using System.Collections.Generic;
+    using Colossal.Mathematics;
+    using Game.Rendering;
+    using Game.Simulation;
+    using Unity.Mathematics;
+    using UnityEngine;
+    using static Game.Rendering.GuideLinesSystem;
+    using static LineToolSystem;
+
+    /// <summary>
+    /// Imported layout placement mode.
+    /// A previously exported set of item points is placed as-is, moved as a whole by dragging the starting point.
+    /// </summary>
+    public class ImportedLayout : LineBase
+    {
+        // Layout control points and item points, as recorded.
+        private readonly List<float3> _controlPoints = new ();
+        private readonly List<PointData> _points = new ();
+
+        // Current translated control points.
+        private readonly List<float3> _currentControlPoints = new ();
+
+        // Recorded layout anchor (the first control point).
+        private readonly float3 _anchor;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="ImportedLayout"/> class.
+        /// </summary>
+        /// <param name="mode">Mode to copy starting state from.</param>
+        /// <param name="highPriorityColor">High priority line colour.</param>
+        /// <param name="mediumPriorityColor">Medium priority line colour.</param>
+        /// <param name="distanceScale">Line width distance scale.</param>
+        /// <param name="controlPoints">Recorded layout control points (must contain at least one point).</param>
+        /// <param name="points">Recorded layout item points.</param>
+        public ImportedLayout(LineBase mode, Color highPriorityColor, Color mediumPriorityColor, float distanceScale, List<float3> controlPoints, List<PointData> points)
+            : base(mode, highPriorityColor, mediumPriorityColor, distanceScale)
+        {
+            _controlPoints.AddRange(controlPoints);
+            _points.AddRange(points);
+            _anchor = controlPoints[0];
+
+            // Start at the recorded position.
+            m_startPos = _anchor;
+            m_endPos = controlPoints[controlPoints.Count - 1];
+            m_validStart = true;
+        }
+
+        /// <summary>
+        /// Performs actions after items are placed on the current line, setting up for the next line to be set.
+        /// The layout stays in place, ready to be moved again.
+        /// </summary>
+        public override void ItemsPlaced()
+        {
+        }
+
+        /// <summary>
+        /// Calculates the points to use based on this mode.
+        /// The recorded layout is moved to the current starting point; heights follow the terrain when following terrain, otherwise the layout is moved as a whole.
+        /// </summary>
+        /// <param name="currentPos">Selection current position (not used; the layout is placed at the starting point).</param>
+        /// <param name="spacingMode">Active spacing mode (not used).</param>
+        /// <param name="rotationMode">Active rotation mode (not used).</param>
+        /// <param name="elevation">Active elevation settings.</param>
+        /// <param name="parallelRows">Active parallel row settings (not used).</param>
+        /// <param name="spacing">Spacing distance.</param>
+        /// <param name="placementCount">Number of items to place (not used).</param>
+        /// <param name="randomSpacing">Random spacing offset maximum (not used).</param>
+        /// <param name="randomOffset">Random lateral offset maximum (not used).</param>
+        /// <param name="randomSeed">Random seed for spacing and offset variation (not used).</param>
+        /// <param name="rotation">Rotation setting (not used).</param>
+        /// <param name="zBounds">Prefab zBounds (not used).</param>
+        /// <param name="pointList">List of points to populate.</param>
+        /// <param name="heightData">Terrain height data reference.</param>
+        public override void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationSettings elevation, ParallelRowSettings parallelRows, float spacing, int placementCount, float randomSpacing, float randomOffset, int randomSeed, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
+        {
+            // Don't do anything if we don't have a valid start point.
+            if (!m_validStart)
+            {
+                return;
+            }
+
+            // Offset from recorded to current position; height is relative to the terrain at the starting point.
+            float3 offset = m_startPos - _anchor;
+            offset.y = TerrainUtils.SampleHeight(ref heightData, m_startPos) - _anchor.y;
+
+            // Translate control points.
+            _currentControlPoints.Clear();
+            float length = 0f;
+            foreach (float3 controlPoint in _controlPoints)
+            {
+                float3 thisPoint = controlPoint + offset;
+                if (_currentControlPoints.Count > 0)
+                {
+                    length += math.distance(_currentControlPoints[_currentControlPoints.Count - 1].xz, thisPoint.xz);
+                }
+
+                _currentControlPoints.Add(thisPoint);
+            }
+
+            // Translate item points.
+            foreach (PointData point in _points)
+            {
+                float3 thisPoint = point.Position + offset;
+                if (elevation.Mode == ElevationMode.FollowTerrain)
+                {
+                    thisPoint.y = TerrainUtils.SampleHeight(ref heightData, thisPoint);
+                }
+
+                pointList.Add(new PointData
+                {
+                    Position = thisPoint,
+                    Rotation = point.Rotation,
+                });
+            }
+
+            // Record end position for overlays.
+            m_endPos = _currentControlPoints[_currentControlPoints.Count - 1];
+            CalculatedLength = length;
+            CalculatedSpacing = spacing;
+        }
+
+        /// <summary>
+        /// Draws any applicable overlay.
+        /// </summary>
+        /// <param name="alpha">Overlay alpha value.</param>
+        /// <param name="overlayBuffer">Overlay buffer.</param>
+        /// <param name="tooltips">Tooltip list.</param>
+        public override void DrawOverlay(float alpha, OverlayRenderSystem.Buffer overlayBuffer, List<TooltipInfo> tooltips)
+        {
+            // Don't draw overlay if we don't have a valid start.
+            if (!m_validStart)
+            {
+                return;
+            }
+
+            // Draw each control line segment.
+            for (int i = 1; i < _currentControlPoints.Count; ++i)
+            {
+                float3 previousPoint = _currentControlPoints[i - 1];
+                float3 thisPoint = _currentControlPoints[i];
+                DrawControlLine(previousPoint, thisPoint, new Line3.Segment(previousPoint, thisPoint), alpha, overlayBuffer, tooltips);
+            }
+        }
+
+        /// <summary>
+        /// Adds the current line control points (in order from start to end) to the given list.
+        /// </summary>
+        /// <param name="controlPoints">List of control points to populate.</param>
+        public override void GetControlPoints(List<float3> controlPoints) => controlPoints.AddRange(_currentControlPoints);
+
+        /// <summary>
+        /// Applies any active constraints to the given world position.
+        /// The layout is fixed, so no constraints are applied.
+        /// </summary>
+        /// <param name="currentPos">World position to constrain.</param>
+        /// <param name="spacing">Spacing value to apply for length constraints.</param>
+        /// <param name="snapToLength"><c>true</c> if the snap-to-length is enabled, <c>false</c> otherwise.</param>
+        /// <returns>Constrained world position.</returns>
+        internal override float3 ConstrainPos(float3 currentPos, float spacing, bool snapToLength) => currentPos;
+
+        /// <summary>
+        /// Checks to see if a click should initiate point dragging.
+        /// Only the starting point can be dragged, moving the whole layout.
+        /// </summary>
+        /// <param name="position">Click position in world space.</param>
+        /// <returns>Drag mode.</returns>
+        internal override DragMode CheckDragHit(float3 position) => math.distancesq(position, m_startPos) < (PointRadius * PointRadius) ? DragMode.StartPos : DragMode.None;
+    }
+}
@@ -8,6 +8,7 @@ namespace LineTool
 {
     using System.Collections.Generic;
     using Colossal.Mathematics;
+    using Game.Net;
     using Game.Rendering;
     using Game.Simulation;
     using Unity.Mathematics;
@@ -27,6 +28,9 @@ namespace LineTool
         /// </summary>
         protected const float PointRadius = 8f;
 
+        // Minimum distance between consecutive path points.
+        private const float MinimumPathSegmentLength = 0.1f;
+
         /// <summary>
         /// Indicates whether a valid starting position has been recorded.
         /// </summary>
@@ -57,6 +61,18 @@ namespace LineTool
         /// </summary>
         protected float m_distanceScale;
 
+        /// <summary>
+        /// Parallel row curves for overlay rendering.
+        /// </summary>
+        protected List<Bezier4x3> m_parallelRowCurves = new ();
+
+        // Current multi-segment path points and cumulative distances along the path.
+        private readonly List<float3> _pathPoints = new ();
+        private readonly List<float> _pathDistances = new ();
+
+        // Line ending position used for the most recent elevation calculations.
+        private float3 _elevationEndPos;
+
         /// <summary>
         /// Initializes a new instance of the <see cref="LineBase"/> class.
         /// </summary>
@@ -106,6 +122,31 @@ namespace LineTool
         /// </summary>
         public virtual bool HasAllPoints => m_validStart;
 
+        /// <summary>
+        /// Gets or sets the actual spacing used in the most recent point calculation.
+        /// </summary>
+        public float CalculatedSpacing { get; protected set; }
+
+        /// <summary>
+        /// Gets or sets the line (or arc) length used in the most recent point calculation.
+        /// </summary>
+        public float CalculatedLength { get; protected set; }
+
+        /// <summary>
+        /// Gets the most recently calculated line starting elevation.
+        /// </summary>
+        public float CalculatedStartElevation { get; private set; }
+
+        /// <summary>
+        /// Gets the most recently calculated line ending elevation.
+        /// </summary>
+        public float CalculatedEndElevation { get; private set; }
+
+        /// <summary>
+        /// Gets the most recently calculated line gradient, in percent.
+        /// </summary>
+        public float CalculatedSlope { get; private set; }
+
         /// <summary>
         /// Handles a mouse click.
         /// </summary>
@@ -143,15 +184,18 @@ namespace LineTool
         /// <param name="currentPos">Selection current position.</param>
         /// <param name="spacingMode">Active spacing mode.</param>
         /// <param name="rotationMode">Active rotation mode.</param>
-        /// <param name="elevationMode">Active elevation mode.</param>
+        /// <param name="elevation">Active elevation settings.</param>
+        /// <param name="parallelRows">Active parallel row settings.</param>
         /// <param name="spacing">Spacing distance.</param>
+        /// <param name="placementCount">Number of items to place (for count mode).</param>
         /// <param name="randomSpacing">Random spacing offset maximum.</param>
         /// <param name="randomOffset">Random lateral offset maximum.</param>
+        /// <param name="randomSeed">Random seed for spacing and offset variation.</param>
         /// <param name="rotation">Rotation setting.</param>
         /// <param name="zBounds">Prefab zBounds.</param>
         /// <param name="pointList">List of points to populate.</param>
         /// <param name="heightData">Terrain height data reference.</param>
-        public virtual void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationMode elevationMode, float spacing, float randomSpacing, float randomOffset, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
+        public virtual void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationSettings elevation, ParallelRowSettings parallelRows, float spacing, int placementCount, float randomSpacing, float randomOffset, int randomSeed, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
         {
             // Don't do anything if we don't have a valid start point.
             if (!m_validStart)
@@ -159,22 +203,12 @@ namespace LineTool
                 return;
             }
 
-            // Calculate line start and ending elevations if needed for elevation modes.
-            float startingElevation = 0f;
-            float endingElevation = 0f;
-            if (elevationMode != ElevationMode.FollowTerrain)
-            {
-                startingElevation = TerrainUtils.SampleHeight(ref heightData, m_startPos);
-                if (elevationMode == ElevationMode.ConstantSlope)
-                {
-                    endingElevation = TerrainUtils.SampleHeight(ref heightData, m_endPos);
-                }
-            }
+            // Calculate line start and ending elevations.
+            CalculateLineElevations(elevation, ref heightData, currentPos, out float startingElevation, out float endingElevation);
 
             // Calculate length.
             float3 difference = currentPos - m_startPos;
             float length = math.length(difference);
-            System.Random random = new ((int)length * 1000);
 
             // Calculate base line angle (for absolute/relative rotation).
             float baseAngle = rotationMode == RotationMode.Absolute ? 0f : math.atan2(difference.x, difference.z);
@@ -190,55 +224,85 @@ namespace LineTool
             // Rotation quaternion.
             quaternion qRotation = quaternion.Euler(0f, appliedRotation, 0f);
 
-            // Calculate even full-length spacing if needed.
+            // Calculate even full-length or count-derived spacing if needed.
             float adjustedSpacing = spacing;
             if (spacingMode == SpacingMode.FullLength)
             {
                 adjustedSpacing = length / math.round(length / spacing);
             }
+            else if (spacingMode == SpacingMode.Count && length > 0f)
+            {
+                adjustedSpacing = length / math.max(placementCount - 1, 1);
+            }
 
-            // Create points.
-            float currentDistance = spacingMode == SpacingMode.FenceMode ? -zBounds.min : 0f;
-            float endLength = spacingMode == SpacingMode.FenceMode ? length - zBounds.max : length;
-            while (currentDistance < endLength + 0.001f)
+            CalculatedSpacing = adjustedSpacing;
+            CalculatedLength = length;
+
+            // Create points for each row, offsetting the line laterally for parallel rows.
+            // Staggering isn't applied in fence or wall-to-wall modes, where items need to join up.
+            bool allowStagger = spacingMode != SpacingMode.FenceMode && spacingMode != SpacingMode.W2WMode;
+            float3 rowDirection = length > 0f ? math.normalize(new float3(-difference.z, 0f, difference.x)) : float3.zero;
+            m_parallelRowCurves.Clear();
+            for (int row = 0; row < parallelRows.RowCount; ++row)
             {
-                // Calculate interpolated point.
-                float spacingAdjustment = 0f;
-                if (randomSpacing > 0f && spacingMode != SpacingMode.FenceMode && spacingMode != SpacingMode.W2WMode)
+                float3 rowOffset = rowDirection * parallelRows.GetOffset(row);
+                float3 rowStart = m_startPos + rowOffset;
+                float3 rowEnd = currentPos + rowOffset;
+                bool staggered = allowStagger && parallelRows.IsStaggered(row);
+                System.Random random = CreateRandom(randomSeed, row);
+
+                // Record row for overlay.
+                if (parallelRows.RowCount > 1)
                 {
-                    spacingAdjustment = (float)(random.NextDouble() * randomSpacing * 2f) - randomSpacing;
+                    m_parallelRowCurves.Add(NetUtils.StraightCurve(rowStart, rowEnd));
                 }
 
-                float3 thisPoint = math.lerp(m_startPos, currentPos, (currentDistance + spacingAdjustment) / length);
-
-                // Apply offset adjustment.
-                if (randomOffset > 0f && spacingMode != SpacingMode.FenceMode && spacingMode != SpacingMode.W2WMode)
+                float currentDistance = spacingMode == SpacingMode.FenceMode ? -zBounds.min : 0f;
+                if (staggered)
                 {
-                    float3 left = math.normalize(new float3(-difference.z, 0f, difference.x));
-                    thisPoint += left * ((float)(randomOffset * random.NextDouble() * 2f) - randomOffset);
+                    currentDistance += adjustedSpacing * 0.5f;
                 }
 
-                thisPoint.y = CalculateElevation(elevationMode, ref heightData, thisPoint, startingElevation, endingElevation);
-
-                // Add point to list.
-                pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
-                currentDistance += adjustedSpacing;
-            }
+                float endLength = spacingMode == SpacingMode.FenceMode ? length - zBounds.max : length;
+                while (currentDistance < endLength + 0.001f)
+                {
+                    // Calculate interpolated point.
+                    float spacingAdjustment = 0f;
+                    if (randomSpacing > 0f && spacingMode != SpacingMode.FenceMode && spacingMode != SpacingMode.W2WMode)
+                    {
+                        spacingAdjustment = (float)(random.NextDouble() * randomSpacing * 2f) - randomSpacing;
+                    }
+
+                    float3 thisPoint = math.lerp(rowStart, rowEnd, (currentDistance + spacingAdjustment) / length);
+
+                    // Apply offset adjustment.
+                    if (randomOffset > 0f && spacingMode != SpacingMode.FenceMode && spacingMode != SpacingMode.W2WMode)
+                    {
+                        thisPoint += rowDirection * ((float)(randomOffset * random.NextDouble() * 2f) - randomOffset);
+                    }
+
+                    thisPoint.y = CalculateElevation(elevation.Mode, ref heightData, thisPoint, startingElevation, endingElevation);
+
+                    // Add point to list.
+                    pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
+                    currentDistance += adjustedSpacing;
+                }
 
-            // Final item for fence mode.
-            if (spacingMode == SpacingMode.FenceMode && currentDistance < length - zBounds.min)
-            {
-                float3 thisPoint = math.lerp(m_startPos, currentPos, (length - zBounds.max + 0.001f) / length);
-                thisPoint.y = CalculateElevation(elevationMode, ref heightData, thisPoint, startingElevation, endingElevation);
-                pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
-            }
+                // Final item for fence mode.
+                if (spacingMode == SpacingMode.FenceMode && currentDistance < length - zBounds.min)
+                {
+                    float3 thisPoint = math.lerp(rowStart, rowEnd, (length - zBounds.max + 0.001f) / length);
+                    thisPoint.y = CalculateElevation(elevation.Mode, ref heightData, thisPoint, startingElevation, endingElevation);
+                    pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
+                }
 
-            // Otherwise, final item if we haven't placed but are within 2% of final placement distance.
-            else if (currentDistance < endLength + (adjustedSpacing * 0.02f))
-            {
-                float3 thisPoint = currentPos;
-                thisPoint.y = CalculateElevation(elevationMode, ref heightData, thisPoint, startingElevation, endingElevation);
-                pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
+                // Otherwise, final item if we haven't placed but are within 2% of final placement distance (staggered rows stop short of the end).
+                else if (!staggered && currentDistance < endLength + (adjustedSpacing * 0.02f))
+                {
+                    float3 thisPoint = rowEnd;
+                    thisPoint.y = CalculateElevation(elevation.Mode, ref heightData, thisPoint, startingElevation, endingElevation);
+                    pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
+                }
             }
 
             // Record end position for overlays.
@@ -257,6 +321,7 @@ namespace LineTool
             if (m_validStart)
             {
                 DrawControlLine(m_startPos, m_endPos, new Line3.Segment(m_startPos, m_endPos), alpha, overlayBuffer, tooltips);
+                DrawParallelRows(overlayBuffer);
             }
         }
 
@@ -273,12 +338,23 @@ namespace LineTool
             overlayBuffer.DrawCircle(Color.cyan, softCyan, 0.3f, 0, new float2(0f, 1f), m_endPos, PointRadius * 2f);
         }
 
+        /// <summary>
+        /// Adds the current line control points (in order from start to end) to the given list.
+        /// </summary>
+        /// <param name="controlPoints">List of control points to populate.</param>
+        public virtual void GetControlPoints(List<float3> controlPoints)
+        {
+            controlPoints.Add(m_startPos);
+            controlPoints.Add(m_endPos);
+        }
+
         /// <summary>
         /// Clears the current selection.
         /// </summary>
         public virtual void Reset()
         {
             m_validStart = false;
+            m_parallelRowCurves.Clear();
         }
 
         /// <summary>
@@ -383,6 +459,129 @@ namespace LineTool
         /// <param name="overlayBuffer">Overlay buffer.</param>
         protected void DrawCurvedLine(Bezier4x3 curve, OverlayRenderSystem.Buffer overlayBuffer) => overlayBuffer.DrawCurve(m_mediumPriorityColor, curve, m_distanceScale * 0.125f);
 
+        /// <summary>
+        /// Draws curved line overlays for any parallel rows.
+        /// </summary>
+        /// <param name="overlayBuffer">Overlay buffer.</param>
+        protected void DrawParallelRows(OverlayRenderSystem.Buffer overlayBuffer)
+        {
+            foreach (Bezier4x3 rowCurve in m_parallelRowCurves)
+            {
+                DrawCurvedLine(rowCurve, overlayBuffer);
+            }
+        }
+
+        /// <summary>
+        /// Calculates points along a multi-segment path, with continuous spacing through each path vertex.
+        /// Any path point coinciding with the previous point is skipped.
+        /// </summary>
+        /// <param name="path">Path points, in order.</param>
+        /// <param name="spacingMode">Active spacing mode.</param>
+        /// <param name="rotationMode">Active rotation mode.</param>
+        /// <param name="elevation">Active elevation settings.</param>
+        /// <param name="spacing">Spacing distance.</param>
+        /// <param name="placementCount">Number of items to place (for count mode).</param>
+        /// <param name="randomSpacing">Random spacing offset maximum.</param>
+        /// <param name="randomOffset">Random lateral offset maximum.</param>
+        /// <param name="randomSeed">Random seed for spacing and offset variation.</param>
+        /// <param name="randomStream">Random sequence index, so that separate paths from the same seed get different variation.</param>
+        /// <param name="rotation">Rotation setting.</param>
+        /// <param name="zBounds">Prefab zBounds.</param>
+        /// <param name="pointList">List of points to populate.</param>
+        /// <param name="heightData">Terrain height data reference.</param>
+        protected void CalculatePathPoints(List<float3> path, SpacingMode spacingMode, RotationMode rotationMode, ElevationSettings elevation, float spacing, int placementCount, float randomSpacing, float randomOffset, int randomSeed, int randomStream, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
+        {
+            // Calculate path; need at least one segment.
+            UpdatePathDistances(path);
+            if (_pathPoints.Count < 2)
+            {
+                return;
+            }
+
+            float3 endPos = _pathPoints[_pathPoints.Count - 1];
+            float length = _pathDistances[_pathDistances.Count - 1];
+            System.Random random = CreateRandom(randomSeed, randomStream);
+
+            // Calculate line start and ending elevations, using the length along the path.
+            CalculateLineElevations(elevation, ref heightData, endPos, length, out float startingElevation, out float endingElevation);
+
+            // Calculate even full-length or count-derived spacing if needed.
+            float adjustedSpacing = spacing;
+            if (spacingMode == SpacingMode.FullLength)
+            {
+                adjustedSpacing = length / math.max(math.round(length / spacing), 1f);
+            }
+            else if (spacingMode == SpacingMode.Count)
+            {
+                adjustedSpacing = length / math.max(placementCount - 1, 1);
+            }
+
+            CalculatedSpacing = adjustedSpacing;
+            CalculatedLength = length;
+
+            // Fence and wall-to-wall items span the distance between two points along the path.
+            bool spanningItems = spacingMode == SpacingMode.FenceMode || spacingMode == SpacingMode.W2WMode;
+
+            // Calculate the center Z point as a ratio of length from end to start (i.e. reverse).
+            float zLength = math.abs(zBounds.max - zBounds.min);
+            float zCenter = zBounds.min + (zLength * 0.5f);
+            float zCenterRatio = (zCenter / zLength) + 0.5f;
+
+            // Create points.
+            float currentDistance = 0f;
+            float endDistance = spanningItems ? length - adjustedSpacing : length;
+            while (currentDistance < endDistance + 0.001f)
+            {
+                if (spanningItems)
+                {
+                    pointList.Add(SpanningPoint(currentDistance, adjustedSpacing, spacingMode, zCenterRatio, elevation.Mode, ref heightData, startingElevation, endingElevation));
+                }
+                else
+                {
+                    // Apply spacing randomization.
+                    float pointDistance = currentDistance;
+                    if (randomSpacing > 0f)
+                    {
+                        pointDistance = math.clamp(pointDistance + (float)(random.NextDouble() * randomSpacing * 2f) - randomSpacing, 0f, length);
+                    }
+
+                    // Calculate point.
+                    float3 thisPoint = PathPosition(pointDistance, out float3 direction);
+
+                    // Apply offset randomization.
+                    if (randomOffset > 0f)
+                    {
+                        float3 left = math.normalize(new float3(-direction.z, 0f, direction.x));
+                        thisPoint += left * ((float)(randomOffset * random.NextDouble() * 2f) - randomOffset);
+                    }
+
+                    thisPoint.y = PathElevation(elevation.Mode, ref heightData, thisPoint, pointDistance, startingElevation, endingElevation);
+
+                    // Add point to list.
+                    pointList.Add(new PointData { Position = thisPoint, Rotation = SegmentRotation(direction, rotationMode, rotation), });
+                }
+
+                currentDistance += adjustedSpacing;
+            }
+
+            // Final item for fence and wall-to-wall modes, ending at the end of the path.
+            if (spanningItems)
+            {
+                if (currentDistance < length - 0.01f && length >= adjustedSpacing)
+                {
+                    pointList.Add(SpanningPoint(length - adjustedSpacing, adjustedSpacing, spacingMode, zCenterRatio, elevation.Mode, ref heightData, startingElevation, endingElevation));
+                }
+            }
+
+            // Otherwise, final item if we haven't placed but are within 2% of final placement distance.
+            else if (currentDistance < length + (adjustedSpacing * 0.02f))
+            {
+                float3 thisPoint = endPos;
+                thisPoint.y = PathElevation(elevation.Mode, ref heightData, thisPoint, length, startingElevation, endingElevation);
+                pointList.Add(new PointData { Position = thisPoint, Rotation = SegmentRotation(endPos - _pathPoints[_pathPoints.Count - 2], rotationMode, rotation), });
+            }
+        }
+
         /// <summary>
         /// Calculates the 2D XZ angle (in radians) between two points, adding the provided adjustment.
         /// </summary>
@@ -437,6 +636,64 @@ namespace LineTool
             return start + ((roundedLength * line) / length) + 0.01f;
         }
 
+        /// <summary>
+        /// Calculates the line starting and ending elevations for the given elevation settings, and records them (and the resulting gradient) as the current calculated values.
+        /// </summary>
+        /// <param name="elevation">Elevation settings.</param>
+        /// <param name="heightData">Terrain height data reference.</param>
+        /// <param name="endPos">Line ending position.</param>
+        /// <param name="startElevation">Calculated line starting elevation.</param>
+        /// <param name="endElevation">Calculated line ending elevation.</param>
+        protected void CalculateLineElevations(ElevationSettings elevation, ref TerrainHeightData heightData, float3 endPos, out float startElevation, out float endElevation) =>
+            CalculateLineElevations(elevation, ref heightData, endPos, math.distance(m_startPos.xz, endPos.xz), out startElevation, out endElevation);
+
+        /// <summary>
+        /// Calculates the line starting and ending elevations for the given elevation settings and line length, and records them (and the resulting gradient) as the current calculated values.
+        /// </summary>
+        /// <param name="elevation">Elevation settings.</param>
+        /// <param name="heightData">Terrain height data reference.</param>
+        /// <param name="endPos">Line ending position.</param>
+        /// <param name="distance">Horizontal line length from start to end (along the line, for lines that aren't straight).</param>
+        /// <param name="startElevation">Calculated line starting elevation.</param>
+        /// <param name="endElevation">Calculated line ending elevation.</param>
+        protected void CalculateLineElevations(ElevationSettings elevation, ref TerrainHeightData heightData, float3 endPos, float distance, out float startElevation, out float endElevation)
+        {
+            // Default to terrain elevations.
+            startElevation = TerrainUtils.SampleHeight(ref heightData, m_startPos);
+            endElevation = TerrainUtils.SampleHeight(ref heightData, endPos);
+            _elevationEndPos = endPos;
+
+            switch (elevation.Mode)
+            {
+                case ElevationMode.Fixed:
+                    startElevation = elevation.FixedHeightAbsolute ? elevation.FixedHeight : startElevation + elevation.FixedHeight;
+                    endElevation = startElevation;
+                    break;
+
+                case ElevationMode.ConstantSlope:
+                    if (elevation.StartHeightFixed)
+                    {
+                        startElevation = elevation.StartHeight;
+                    }
+
+                    // A fixed gradient takes priority over a fixed ending height.
+                    if (elevation.SlopeFixed)
+                    {
+                        endElevation = startElevation + (distance * elevation.SlopePercent / 100f);
+                    }
+                    else if (elevation.EndHeightFixed)
+                    {
+                        endElevation = elevation.EndHeight;
+                    }
+
+                    break;
+            }
+
+            CalculatedStartElevation = startElevation;
+            CalculatedEndElevation = endElevation;
+            CalculatedSlope = distance > 0f ? (endElevation - startElevation) / distance * 100f : 0f;
+        }
+
         /// <summary>
         /// Calculates the elevation for a given position based on the selected elevation mode.
         /// </summary>
@@ -457,10 +714,144 @@ namespace LineTool
                     return startElevation;
                 case ElevationMode.ConstantSlope:
                     float distance = math.distance(m_startPos.xz, position.xz);
-                    float totalDistance = math.distance(m_startPos.xz, m_endPos.xz);
+                    float totalDistance = math.distance(m_startPos.xz, _elevationEndPos.xz);
+                    if (totalDistance <= 0f)
+                    {
+                        return startElevation;
+                    }
+
                     float slope = (endElevation - startElevation) / totalDistance;
                     return startElevation + (slope * distance);
             }
         }
+
+        /// <summary>
+        /// Creates the random number generator for spacing and offset variation, derived from the given seed and index (e.g. parallel row).
+        /// The same seed and index always give the same sequence, so that layouts can be reproduced by restoring the seed.
+        /// </summary>
+        /// <param name="randomSeed">Random seed.</param>
+        /// <param name="index">Sequence index.</param>
+        /// <returns>New random number generator.</returns>
+        protected static System.Random CreateRandom(int randomSeed, int index) => new ((int)math.hash(new int2(randomSeed, index)));
+
+        /// <summary>
+        /// Calculates the rotation for an item on a path segment with the given direction.
+        /// </summary>
+        /// <param name="direction">Segment direction.</param>
+        /// <param name="rotationMode">Active rotation mode.</param>
+        /// <param name="rotation">Rotation setting.</param>
+        /// <returns>Item rotation.</returns>
+        private static quaternion SegmentRotation(float3 direction, RotationMode rotationMode, int rotation)
+        {
+            float baseAngle = rotationMode == RotationMode.Absolute ? 0f : math.atan2(direction.x, direction.z);
+            return quaternion.Euler(0f, math.radians(rotation) + baseAngle, 0f);
+        }
+
+        /// <summary>
+        /// Records the given path points (skipping any coinciding with the previous point) and the cumulative distance to each.
+        /// </summary>
+        /// <param name="path">Path points, in order.</param>
+        private void UpdatePathDistances(List<float3> path)
+        {
+            _pathPoints.Clear();
+            _pathDistances.Clear();
+
+            foreach (float3 point in path)
+            {
+                if (_pathPoints.Count == 0)
+                {
+                    _pathPoints.Add(point);
+                    _pathDistances.Add(0f);
+                    continue;
+                }
+
+                float3 previousPoint = _pathPoints[_pathPoints.Count - 1];
+                if (math.distance(point.xz, previousPoint.xz) >= MinimumPathSegmentLength)
+                {
+                    _pathDistances.Add(_pathDistances[_pathDistances.Count - 1] + math.length(point - previousPoint));
+                    _pathPoints.Add(point);
+                }
+            }
+        }
+
+        /// <summary>
+        /// Gets the position at the given distance along the current path.
+        /// </summary>
+        /// <param name="distance">Distance along the path.</param>
+        /// <param name="direction">Direction of the path segment containing the position.</param>
+        /// <returns>Path position.</returns>
+        private float3 PathPosition(float distance, out float3 direction)
+        {
+            // Find the segment containing this distance (clamping to the final segment).
+            int segment = 1;
+            while (segment < _pathPoints.Count - 1 && _pathDistances[segment] < distance)
+            {
+                ++segment;
+            }
+
+            float3 segmentStart = _pathPoints[segment - 1];
+            float3 segmentEnd = _pathPoints[segment];
+            direction = segmentEnd - segmentStart;
+            float segmentLength = _pathDistances[segment] - _pathDistances[segment - 1];
+            return math.lerp(segmentStart, segmentEnd, math.clamp((distance - _pathDistances[segment - 1]) / segmentLength, 0f, 1f));
+        }
+
+        /// <summary>
+        /// Calculates the elevation for a point at the given distance along the current path.
+        /// Constant slopes are interpolated along the path, rather than in a straight line from the start.
+        /// </summary>
+        /// <param name="elevationMode">Selected elevation mode.</param>
+        /// <param name="heightData">Terrain height data reference.</param>
+        /// <param name="position">World position of line point.</param>
+        /// <param name="distance">Distance of the point along the path.</param>
+        /// <param name="startElevation">Elevation of the starting position on the line.</param>
+        /// <param name="endElevation">Elevation at the ending position on the line.</param>
+        /// <returns>Calculated elevation for the given line point.</returns>
+        private float PathElevation(ElevationMode elevationMode, ref TerrainHeightData heightData, float3 position, float distance, float startElevation, float endElevation)
+        {
+            if (elevationMode == ElevationMode.ConstantSlope)
+            {
+                float length = _pathDistances[_pathDistances.Count - 1];
+                return length > 0f ? math.lerp(startElevation, endElevation, distance / length) : startElevation;
+            }
+
+            return CalculateElevation(elevationMode, ref heightData, position, startElevation, endElevation);
+        }
+
+        /// <summary>
+        /// Calculates a fence or wall-to-wall item spanning the given distance along the current path, cutting across any vertex within the span.
+        /// </summary>
+        /// <param name="distance">Distance along the path of the start of the item.</param>
+        /// <param name="span">Item span length.</param>
+        /// <param name="spacingMode">Active spacing mode.</param>
+        /// <param name="zCenterRatio">Ratio of the prefab's centre Z point along its length (for fence mode).</param>
+        /// <param name="elevationMode">Selected elevation mode.</param>
+        /// <param name="heightData">Terrain height data reference.</param>
+        /// <param name="startElevation">Elevation of the starting position on the line.</param>
+        /// <param name="endElevation">Elevation at the ending position on the line.</param>
+        /// <returns>Item point data.</returns>
+        private PointData SpanningPoint(float distance, float span, SpacingMode spacingMode, float zCenterRatio, ElevationMode elevationMode, ref TerrainHeightData heightData, float startElevation, float endElevation)
+        {
+            float3 thisPoint = PathPosition(distance, out _);
+            float3 nextPoint = PathPosition(distance + span, out _);
+
+            float3 position;
+            float itemRotation;
+            if (spacingMode == SpacingMode.FenceMode)
+            {
+                // Interpolate exact location of this point based on the centre z point of the mesh.
+                itemRotation = CalculateRelativeAngle(thisPoint, nextPoint, 0f);
+                position = math.lerp(nextPoint, thisPoint, zCenterRatio);
+            }
+            else
+            {
+                // Wall-to-wall mode.
+                itemRotation = CalculateRelativeAngle(thisPoint, nextPoint, math.PI / 2f);
+                position = (nextPoint + thisPoint) / 2f;
+            }
+
+            position.y = PathElevation(elevationMode, ref heightData, position, distance + (span * 0.5f), startElevation, endElevation);
+            return new PointData { Position = position, Rotation = quaternion.Euler(0f, itemRotation, 0f), };
+        }
     }
 }
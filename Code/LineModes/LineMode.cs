@@ -35,5 +35,20 @@ namespace LineTool
         /// Grid mode.
         /// </summary>
         Grid,
+
+        /// <summary>
+        /// Multi-segment polyline.
+        /// </summary>
+        Polyline,
+
+        /// <summary>
+        /// Follow an existing network.
+        /// </summary>
+        FollowNetwork,
+
+        /// <summary>
+        /// Imported layout (set via layout import only).
+        /// </summary>
+        ImportedLayout,
     }
 }
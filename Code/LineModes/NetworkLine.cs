@@ -0,0 +1,279 @@
+// <copyright file="NetworkLine.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    using System.Collections.Generic;
+    using Colossal.Mathematics;
+    using Game.Rendering;
+    using Game.Simulation;
+    using Unity.Entities;
+    using Unity.Mathematics;
+    using UnityEngine;
+    using static Game.Rendering.GuideLinesSystem;
+    using static LineToolSystem;
+
+    /// <summary>
+    /// Follow-network placement mode.
+    /// Items are placed alongside the actual geometry of an existing road, path or track, from the start point to the end point.
+    /// </summary>
+    public class NetworkLine : LineBase
+    {
+        // Approximate distance between sampled points along each network curve.
+        private const float SampleDistance = 2f;
+
+        // Followed network curves (from start to end) and the half-width of the network for each.
+        private readonly List<Bezier4x3> _curves = new ();
+        private readonly List<float> _halfWidths = new ();
+
+        // Sampled paths for each side of the network.
+        private readonly List<float3> _leftPath = new ();
+        private readonly List<float3> _rightPath = new ();
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="NetworkLine"/> class.
+        /// </summary>
+        /// <param name="mode">Mode to copy starting state from.</param>
+        /// <param name="highPriorityColor">High priority line colour.</param>
+        /// <param name="mediumPriorityColor">Medium priority line colour.</param>
+        /// <param name="distanceScale">Line width distance scale.</param>
+        public NetworkLine(LineBase mode, Color highPriorityColor, Color mediumPriorityColor, float distanceScale)
+            : base(mode, highPriorityColor, mediumPriorityColor, distanceScale)
+        {
+            // Any existing start point won't be on a network, so don't copy it.
+            m_validStart = false;
+        }
+
+        /// <summary>
+        /// Gets the network edge that the line starts on.
+        /// </summary>
+        public Entity StartEdge { get; private set; }
+
+        /// <summary>
+        /// Gets the curve position of the line start on the starting edge.
+        /// </summary>
+        public float StartCurvePosition { get; private set; }
+
+        /// <summary>
+        /// Gets the currently hovered network edge (<see cref="Entity.Null"/> if none).
+        /// </summary>
+        public Entity HoveredEdge { get; private set; }
+
+        /// <summary>
+        /// Gets the curve position of the cursor on the currently hovered network edge.
+        /// </summary>
+        public float HoveredCurvePosition { get; private set; }
+
+        /// <summary>
+        /// Gets a value indicating whether we're ready to place (we have a valid start and a followed network path).
+        /// </summary>
+        public override bool HasAllPoints => m_validStart && _curves.Count > 0;
+
+        /// <summary>
+        /// Handles a mouse click.
+        /// </summary>
+        /// <param name="position">Click world position.</param>
+        /// <returns>The <see cref="ClickMode"/> reflecting how the click was processed.</returns>
+        public override ClickMode HandleClick(float3 position)
+        {
+            // Clicks are only valid on a network.
+            if (HoveredEdge == Entity.Null)
+            {
+                return ClickMode.Ignored;
+            }
+
+            // If no valid initial point, record this as the first point.
+            if (!m_validStart)
+            {
+                m_startPos = position;
+                m_endPos = position;
+                StartEdge = HoveredEdge;
+                StartCurvePosition = HoveredCurvePosition;
+                m_validStart = true;
+                return ClickMode.Initial;
+            }
+
+            // Otherwise, place the items (if we've got a path to place them along).
+            return _curves.Count > 0 ? ClickMode.Placed : ClickMode.Ignored;
+        }
+
+        /// <summary>
+        /// Performs actions after items are placed on the current line, setting up for the next line to be set.
+        /// </summary>
+        public override void ItemsPlaced()
+        {
+            // Continue from the end of this line.
+            base.ItemsPlaced();
+            StartEdge = HoveredEdge;
+            StartCurvePosition = HoveredCurvePosition;
+        }
+
+        /// <summary>
+        /// Sets the network edge currently under the cursor.
+        /// </summary>
+        /// <param name="edge">Hovered edge entity (<see cref="Entity.Null"/> if none).</param>
+        /// <param name="curvePosition">Curve position of the cursor on the hovered edge.</param>
+        public void SetHoveredEdge(Entity edge, float curvePosition)
+        {
+            HoveredEdge = edge;
+            HoveredCurvePosition = curvePosition;
+        }
+
+        /// <summary>
+        /// Sets the network path to follow from the start point to the current position.
+        /// </summary>
+        /// <param name="curves">Network curves, in order from start to end and oriented in that direction.</param>
+        /// <param name="halfWidths">Network half-width for each curve.</param>
+        public void SetPath(List<Bezier4x3> curves, List<float> halfWidths)
+        {
+            _curves.Clear();
+            _curves.AddRange(curves);
+            _halfWidths.Clear();
+            _halfWidths.AddRange(halfWidths);
+        }
+
+        /// <summary>
+        /// Calculates the points to use based on this mode.
+        /// </summary>
+        /// <param name="currentPos">Selection current position.</param>
+        /// <param name="spacingMode">Active spacing mode.</param>
+        /// <param name="rotationMode">Active rotation mode.</param>
+        /// <param name="elevation">Active elevation settings.</param>
+        /// <param name="spacing">Spacing distance.</param>
+        /// <param name="placementCount">Number of items to place (for count mode).</param>
+        /// <param name="side">Network side(s) to place along.</param>
+        /// <param name="lateralOffset">Lateral offset from the edge of the network.</param>
+        /// <param name="randomSpacing">Random spacing offset maximum.</param>
+        /// <param name="randomOffset">Random lateral offset maximum.</param>
+        /// <param name="randomSeed">Random seed for spacing and offset variation.</param>
+        /// <param name="rotation">Rotation setting.</param>
+        /// <param name="zBounds">Prefab zBounds.</param>
+        /// <param name="pointList">List of points to populate.</param>
+        /// <param name="heightData">Terrain height data reference.</param>
+        public void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationSettings elevation, float spacing, int placementCount, NetworkSide side, float lateralOffset, float randomSpacing, float randomOffset, int randomSeed, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
+        {
+            // Don't do anything if we don't have a valid start point.
+            if (!m_validStart)
+            {
+                return;
+            }
+
+            // Record end position for overlays.
+            m_endPos = currentPos;
+
+            // Calculate offset paths for each side, and place along them.
+            _leftPath.Clear();
+            _rightPath.Clear();
+            if (side != NetworkSide.Right)
+            {
+                SampleSidePath(1f, lateralOffset, _leftPath);
+                CalculatePathPoints(_leftPath, spacingMode, rotationMode, elevation, spacing, placementCount, randomSpacing, randomOffset, randomSeed, 0, rotation, zBounds, pointList, ref heightData);
+            }
+
+            if (side != NetworkSide.Left)
+            {
+                SampleSidePath(-1f, lateralOffset, _rightPath);
+                CalculatePathPoints(_rightPath, spacingMode, rotationMode, elevation, spacing, placementCount, randomSpacing, randomOffset, randomSeed, 1, rotation, zBounds, pointList, ref heightData);
+            }
+        }
+
+        /// <summary>
+        /// Draws any applicable overlay.
+        /// </summary>
+        /// <param name="alpha">Overlay alpha value.</param>
+        /// <param name="overlayBuffer">Overlay buffer.</param>
+        /// <param name="tooltips">Tooltip list.</param>
+        public override void DrawOverlay(float alpha, OverlayRenderSystem.Buffer overlayBuffer, List<TooltipInfo> tooltips)
+        {
+            // Don't draw overlay if we don't have a valid start.
+            if (!m_validStart)
+            {
+                return;
+            }
+
+            // Highlight the followed network.
+            float lineScale = m_distanceScale * 0.125f;
+            foreach (Bezier4x3 curve in _curves)
+            {
+                overlayBuffer.DrawCurve(m_highPriorityColor, curve, lineScale);
+            }
+
+            // Draw placement paths.
+            DrawSidePath(_leftPath, lineScale, overlayBuffer);
+            DrawSidePath(_rightPath, lineScale, overlayBuffer);
+        }
+
+        /// <summary>
+        /// Clears the current selection.
+        /// </summary>
+        public override void Reset()
+        {
+            base.Reset();
+            StartEdge = Entity.Null;
+            _curves.Clear();
+            _halfWidths.Clear();
+            _leftPath.Clear();
+            _rightPath.Clear();
+        }
+
+        /// <summary>
+        /// Applies any active constraints to the given world position.
+        /// Positions follow the network, so no constraints are applied.
+        /// </summary>
+        /// <param name="currentPos">World position to constrain.</param>
+        /// <param name="spacing">Spacing value to apply for length constraints.</param>
+        /// <param name="snapToLength"><c>true</c> if the snap-to-length is enabled, <c>false</c> otherwise.</param>
+        /// <returns>Constrained world position.</returns>
+        internal override float3 ConstrainPos(float3 currentPos, float spacing, bool snapToLength) => currentPos;
+
+        /// <summary>
+        /// Checks to see if a click should initiate point dragging.
+        /// Points are fixed to the network, so dragging isn't supported.
+        /// </summary>
+        /// <param name="position">Click position in world space.</param>
+        /// <returns>Drag mode.</returns>
+        internal override DragMode CheckDragHit(float3 position) => DragMode.None;
+
+        /// <summary>
+        /// Samples the followed network curves into a path offset to one side of the network.
+        /// </summary>
+        /// <param name="sideSign">Network side (1 for left, -1 for right).</param>
+        /// <param name="lateralOffset">Lateral offset outwards from the edge of the network.</param>
+        /// <param name="path">Path list to populate.</param>
+        private void SampleSidePath(float sideSign, float lateralOffset, List<float3> path)
+        {
+            for (int i = 0; i < _curves.Count; ++i)
+            {
+                Bezier4x3 curve = _curves[i];
+                float offset = (_halfWidths[i] + lateralOffset) * sideSign;
+                int samples = math.max(4, (int)math.ceil(MathUtils.Length(curve) / SampleDistance));
+
+                // Each curve after the first starts where the previous one ended, so skip its first sample.
+                for (int j = i == 0 ? 0 : 1; j <= samples; ++j)
+                {
+                    float t = (float)j / samples;
+                    float3 tangent = MathUtils.Tangent(curve, t);
+                    float3 left = math.normalizesafe(new float3(-tangent.z, 0f, tangent.x));
+                    path.Add(MathUtils.Position(curve, t) + (left * offset));
+                }
+            }
+        }
+
+        /// <summary>
+        /// Draws a sampled side path overlay.
+        /// </summary>
+        /// <param name="path">Path to draw.</param>
+        /// <param name="lineScale">Line width.</param>
+        /// <param name="overlayBuffer">Overlay buffer.</param>
+        private void DrawSidePath(List<float3> path, float lineScale, OverlayRenderSystem.Buffer overlayBuffer)
+        {
+            for (int i = 1; i < path.Count; ++i)
+            {
+                overlayBuffer.DrawLine(m_mediumPriorityColor, new Line3.Segment(path[i - 1], path[i]), lineScale);
+            }
+        }
+    }
+}
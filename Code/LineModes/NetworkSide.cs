@@ -0,0 +1,29 @@
+﻿// <copyright file="NetworkSide.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    /// <summary>
+    /// Network sides to place along in follow-network mode (relative to the direction of the line).
+    /// </summary>
+    public enum NetworkSide
+    {
+        /// <summary>
+        /// Left side only.
+        /// </summary>
+        Left,
+
+        /// <summary>
+        /// Right side only.
+        /// </summary>
+        Right,
+
+        /// <summary>
+        /// Both sides.
+        /// </summary>
+        Both,
+    }
+}
@@ -0,0 +1,51 @@
+// <copyright file="ParallelRowSettings.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    using Unity.Mathematics;
+
+    /// <summary>
+    /// Data struct for parallel row settings.
+    /// </summary>
+    public struct ParallelRowSettings
+    {
+        /// <summary>
+        /// Number of rows (including the base line).
+        /// </summary>
+        public int Count;
+
+        /// <summary>
+        /// Lateral distance between rows.
+        /// </summary>
+        public float Spacing;
+
+        /// <summary>
+        /// Whether alternate rows are staggered by half of the item spacing.
+        /// </summary>
+        public bool Staggered;
+
+        /// <summary>
+        /// Gets the effective number of rows (always at least one).
+        /// </summary>
+        public readonly int RowCount => math.max(Count, 1);
+
+        /// <summary>
+        /// Gets the lateral offset of the given row from the base line.
+        /// Rows are centred on the base line, with positive offsets to the left (or outwards, for circles).
+        /// </summary>
+        /// <param name="row">Row index.</param>
+        /// <returns>Row offset.</returns>
+        public readonly float GetOffset(int row) => (row - ((RowCount - 1) * 0.5f)) * Spacing;
+
+        /// <summary>
+        /// Gets a value indicating whether the given row is staggered.
+        /// </summary>
+        /// <param name="row">Row index.</param>
+        /// <returns><c>true</c> if the row is staggered, <c>false</c> otherwise.</returns>
+        public readonly bool IsStaggered(int row) => Staggered && (row & 1) != 0;
+    }
+}
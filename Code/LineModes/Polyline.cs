@@ -0,0 +1,316 @@
+// <copyright file="Polyline.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    using System.Collections.Generic;
+    using Colossal.Mathematics;
+    using Game.Rendering;
+    using Game.Simulation;
+    using Unity.Mathematics;
+    using UnityEngine;
+    using UnityEngine.InputSystem;
+    using static Game.Rendering.GuideLinesSystem;
+    using static LineToolSystem;
+
+    /// <summary>
+    /// Multi-segment polyline placement mode.
+    /// Each click adds a vertex; the line is completed with a double-click or by pressing enter.
+    /// </summary>
+    public class Polyline : ElbowBase
+    {
+        // Maximum time between clicks (in seconds) for a double-click.
+        private const float DoubleClickTime = 0.5f;
+
+        // Minimum distance between a new vertex and the previous point.
+        private const float MinimumSegmentLength = 0.1f;
+
+        // Vertices (in order, excluding the start and current positions).
+        private readonly List<float3> _vertices = new ();
+
+        // Path points (start, vertices and current position).
+        private readonly List<float3> _path = new ();
+
+        // Double-click detection.
+        private float _lastClickTime = float.MinValue;
+
+        // Vertex currently being dragged.
+        private int _dragVertex = -1;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="Polyline"/> class.
+        /// </summary>
+        /// <param name="mode">Mode to copy starting state from.</param>
+        /// <param name="highPriorityColor">High priority line colour.</param>
+        /// <param name="mediumPriorityColor">Medium priority line colour.</param>
+        /// <param name="distanceScale">Line width distance scale.</param>
+        public Polyline(LineBase mode, Color highPriorityColor, Color mediumPriorityColor, float distanceScale)
+            : base(mode, highPriorityColor, mediumPriorityColor, distanceScale)
+        {
+        }
+
+        /// <summary>
+        /// Gets a value indicating whether we're ready to place (we have enough control positions).
+        /// </summary>
+        public override bool HasAllPoints => m_validStart && _vertices.Count > 0;
+
+        /// <summary>
+        /// Gets the most recently placed control point (the last vertex, or the start position if there are no vertices).
+        /// </summary>
+        private float3 LastPoint => _vertices.Count > 0 ? _vertices[_vertices.Count - 1] : m_startPos;
+
+        /// <summary>
+        /// Handles a mouse click.
+        /// </summary>
+        /// <param name="position">Click world position.</param>
+        /// <returns>The <see cref="ClickMode"/> reflecting how the click was processed.</returns>
+        public override ClickMode HandleClick(float3 position)
+        {
+            float clickTime = Time.realtimeSinceStartup;
+            float previousClickTime = _lastClickTime;
+            _lastClickTime = clickTime;
+
+            // If no valid initial point, record this as the first point.
+            if (!m_validStart)
+            {
+                m_startPos = position;
+                m_endPos = position;
+                m_validStart = true;
+                return ClickMode.Initial;
+            }
+
+            // A double-click on the most recent vertex completes the line.
+            if (_vertices.Count > 0 && clickTime - previousClickTime < DoubleClickTime && math.distancesq(position.xz, LastPoint.xz) < PointRadius * PointRadius)
+            {
+                return ClickMode.Placed;
+            }
+
+            // Otherwise, add a new vertex (ignoring any click on top of the most recent point).
+            if (math.distance(position.xz, LastPoint.xz) >= MinimumSegmentLength)
+            {
+                _vertices.Add(position);
+            }
+
+            return ClickMode.Midpoint;
+        }
+
+        /// <summary>
+        /// Removes the most recently added vertex, or clears the starting position if there are no vertices.
+        /// </summary>
+        public void RemoveLastVertex()
+        {
+            if (_vertices.Count > 0)
+            {
+                _vertices.RemoveAt(_vertices.Count - 1);
+            }
+            else
+            {
+                Reset();
+            }
+        }
+
+        /// <summary>
+        /// Performs actions after items are placed on the current line, setting up for the next line to be set.
+        /// </summary>
+        public override void ItemsPlaced()
+        {
+            // Start the next line from the end of this one.
+            // The base elbow direction lock isn't applied, as the next line's direction is set by its own vertices.
+            m_startPos = m_endPos;
+            _vertices.Clear();
+        }
+
+        /// <summary>
+        /// Calculates the points to use based on this mode.
+        /// Spacing is continuous along the whole line, through each vertex.
+        /// </summary>
+        /// <param name="currentPos">Selection current position.</param>
+        /// <param name="spacingMode">Active spacing mode.</param>
+        /// <param name="rotationMode">Active rotation mode.</param>
+        /// <param name="elevation">Active elevation settings.</param>
+        /// <param name="parallelRows">Active parallel row settings (not used for polylines).</param>
+        /// <param name="spacing">Spacing distance.</param>
+        /// <param name="placementCount">Number of items to place (for count mode).</param>
+        /// <param name="randomSpacing">Random spacing offset maximum.</param>
+        /// <param name="randomOffset">Random lateral offset maximum.</param>
+        /// <param name="randomSeed">Random seed for spacing and offset variation.</param>
+        /// <param name="rotation">Rotation setting.</param>
+        /// <param name="zBounds">Prefab zBounds.</param>
+        /// <param name="pointList">List of points to populate.</param>
+        /// <param name="heightData">Terrain height data reference.</param>
+        public override void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationSettings elevation, ParallelRowSettings parallelRows, float spacing, int placementCount, float randomSpacing, float randomOffset, int randomSeed, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
+        {
+            // Don't do anything if we don't have a valid start point.
+            if (!m_validStart)
+            {
+                return;
+            }
+
+            // Record end position for overlays.
+            m_endPos = currentPos;
+
+            // Path runs from the start through each vertex to the current position.
+            _path.Clear();
+            _path.Add(m_startPos);
+            _path.AddRange(_vertices);
+            _path.Add(currentPos);
+            CalculatePathPoints(_path, spacingMode, rotationMode, elevation, spacing, placementCount, randomSpacing, randomOffset, randomSeed, 0, rotation, zBounds, pointList, ref heightData);
+        }
+
+        /// <summary>
+        /// Draws any applicable overlay.
+        /// </summary>
+        /// <param name="alpha">Overlay alpha value.</param>
+        /// <param name="overlayBuffer">Overlay buffer.</param>
+        /// <param name="tooltips">Tooltip list.</param>
+        public override void DrawOverlay(float alpha, OverlayRenderSystem.Buffer overlayBuffer, List<TooltipInfo> tooltips)
+        {
+            // Don't draw overlay if we don't have a valid start.
+            if (!m_validStart)
+            {
+                return;
+            }
+
+            // Draw each segment, with an angle indicator at each vertex.
+            float3 previousPoint = m_startPos;
+            for (int i = 0; i <= _vertices.Count; ++i)
+            {
+                float3 thisPoint = i < _vertices.Count ? _vertices[i] : m_endPos;
+                DrawControlLine(previousPoint, thisPoint, new Line3.Segment(previousPoint, thisPoint), alpha, overlayBuffer, tooltips);
+
+                if (i < _vertices.Count)
+                {
+                    float3 nextPoint = i + 1 < _vertices.Count ? _vertices[i + 1] : m_endPos;
+                    DrawAngleIndicator(new Line3.Segment(previousPoint, thisPoint), new Line3.Segment(thisPoint, nextPoint), overlayBuffer, tooltips);
+                }
+
+                previousPoint = thisPoint;
+            }
+        }
+
+        /// <summary>
+        /// Draws point overlays.
+        /// </summary>
+        /// <param name="overlayBuffer">Overlay buffer.</param>
+        public override void DrawPointOverlays(OverlayRenderSystem.Buffer overlayBuffer)
+        {
+            base.DrawPointOverlays(overlayBuffer);
+
+            // Draw vertices.
+            Color softCyan = Color.cyan;
+            softCyan.a *= 0.1f;
+            foreach (float3 vertex in _vertices)
+            {
+                overlayBuffer.DrawCircle(Color.cyan, softCyan, 0.3f, 0, new float2(0f, 1f), vertex, PointRadius * 2f);
+            }
+        }
+
+        /// <summary>
+        /// Adds the current line control points (in order from start to end) to the given list.
+        /// </summary>
+        /// <param name="controlPoints">List of control points to populate.</param>
+        public override void GetControlPoints(List<float3> controlPoints)
+        {
+            controlPoints.Add(m_startPos);
+            controlPoints.AddRange(_vertices);
+            controlPoints.Add(m_endPos);
+        }
+
+        /// <summary>
+        /// Clears the current selection.
+        /// </summary>
+        public override void Reset()
+        {
+            // Clear vertices first, if we have any.
+            if (_vertices.Count > 0)
+            {
+                _vertices.Clear();
+            }
+            else
+            {
+                // Otherwise, reset entire state.
+                base.Reset();
+            }
+        }
+
+        /// <summary>
+        /// Applies any active constraints to the given world position.
+        /// Length snapping is measured from the most recent vertex, and angle snapping is relative to the previous segment.
+        /// </summary>
+        /// <param name="currentPos">World position to constrain.</param>
+        /// <param name="spacing">Spacing value to apply for length constraints.</param>
+        /// <param name="snapToLength"><c>true</c> if the snap-to-length is enabled, <c>false</c> otherwise.</param>
+        /// <returns>Constrained world position.</returns>
+        internal override float3 ConstrainPos(float3 currentPos, float spacing, bool snapToLength)
+        {
+            // Constraints require a valid starting point.
+            if (!m_validStart)
+            {
+                return currentPos;
+            }
+
+            // Apply length snapping, if active.
+            float3 constrainedPos = snapToLength ? SnapToLength(currentPos, LastPoint, spacing) : currentPos;
+
+            // If there's at least one vertex and the alt key is pressed, perform any angle constraints.
+            if (_vertices.Count > 0 && Keyboard.current.altKey.isPressed)
+            {
+                float3 previousPoint = _vertices.Count > 1 ? _vertices[_vertices.Count - 2] : m_startPos;
+                return ConstrainAngle(constrainedPos, previousPoint, LastPoint);
+            }
+
+            return constrainedPos;
+        }
+
+        /// <summary>
+        /// Checks to see if a click should initiate point dragging.
+        /// </summary>
+        /// <param name="position">Click position in world space.</param>
+        /// <returns>Drag mode.</returns>
+        internal override DragMode CheckDragHit(float3 position)
+        {
+            // Start and end points.
+            DragMode mode = base.CheckDragHit(position);
+
+            // If no hit from base (start and end points), check for vertex hits.
+            if (mode == DragMode.None)
+            {
+                for (int i = 0; i < _vertices.Count; ++i)
+                {
+                    if (math.distancesq(position, _vertices[i]) < (PointRadius * PointRadius))
+                    {
+                        _dragVertex = i;
+                        return DragMode.ElbowPos;
+                    }
+                }
+            }
+
+            return mode;
+        }
+
+        /// <summary>
+        /// Handles dragging action.
+        /// </summary>
+        /// <param name="dragMode">Dragging mode.</param>
+        /// <param name="position">New position.</param>
+        internal override void HandleDrag(DragMode dragMode, float3 position)
+        {
+            if (dragMode == DragMode.ElbowPos)
+            {
+                // Update dragged vertex.
+                if (_dragVertex >= 0 && _dragVertex < _vertices.Count)
+                {
+                    _vertices[_dragVertex] = position;
+                }
+            }
+            else
+            {
+                // Other points.
+                base.HandleDrag(dragMode, position);
+            }
+        }
+    }
+}
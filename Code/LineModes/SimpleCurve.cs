@@ -41,15 +41,18 @@ namespace LineTool
         /// <param name="currentPos">Selection current position.</param>
         /// <param name="spacingMode">Active spacing mode.</param>
         /// <param name="rotationMode">Active rotation mode.</param>
-        /// <param name="elevationMode">Active elevation mode.</param>
+        /// <param name="elevation">Active elevation settings.</param>
+        /// <param name="parallelRows">Active parallel row settings.</param>
         /// <param name="spacing">Spacing distance.</param>
+        /// <param name="placementCount">Number of items to place (for count mode).</param>
         /// <param name="randomSpacing">Random spacing offset maximum.</param>
         /// <param name="randomOffset">Random lateral offset maximum.</param>
+        /// <param name="randomSeed">Random seed for spacing and offset variation.</param>
         /// <param name="rotation">Rotation setting.</param>
         /// <param name="zBounds">Prefab zBounds.</param>
         /// <param name="pointList">List of points to populate.</param>
         /// <param name="heightData">Terrain height data reference.</param>
-        public override void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationMode elevationMode, float spacing, float randomSpacing, float randomOffset, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
+        public override void CalculatePoints(float3 currentPos, SpacingMode spacingMode, RotationMode rotationMode, ElevationSettings elevation, ParallelRowSettings parallelRows, float spacing, int placementCount, float randomSpacing, float randomOffset, int randomSeed, int rotation, Bounds1 zBounds, List<PointData> pointList, ref TerrainHeightData heightData)
         {
             // Don't do anything if we don't have valid start.
             if (!m_validStart)
@@ -60,160 +63,185 @@ namespace LineTool
             // If we have a valid start but no valid elbow, just draw a straight line.
             if (!ValidElbow)
             {
-                base.CalculatePoints(currentPos, spacingMode, rotationMode, elevationMode, spacing, randomSpacing, randomOffset, rotation, zBounds, pointList, ref heightData);
+                base.CalculatePoints(currentPos, spacingMode, rotationMode, elevation, parallelRows, spacing, placementCount, randomSpacing, randomOffset, randomSeed, rotation, zBounds, pointList, ref heightData);
                 return;
             }
 
             // Calculate Bezier.
             _thisBezier = NetUtils.FitCurve(new Line3.Segment(m_startPos, ElbowPoint), new Line3.Segment(currentPos, ElbowPoint));
 
-            // Calculate even full-length spacing if needed.
+            // Calculate even full-length or count-derived spacing if needed.
             float adjustedSpacing = spacing;
             float length = MathUtils.Length(_thisBezier);
             if (spacingMode == SpacingMode.FullLength)
             {
                 adjustedSpacing = length / math.round(length / spacing);
             }
+            else if (spacingMode == SpacingMode.Count && length > 0f)
+            {
+                adjustedSpacing = length / math.max(placementCount - 1, 1);
+            }
+
+            CalculatedSpacing = adjustedSpacing;
+            CalculatedLength = length;
 
             // Default rotation quaternion.
             float rotationRadians = math.radians(rotation);
             quaternion qRotation = quaternion.Euler(0f, rotationRadians, 0f);
 
-            // Randomizer.
-            System.Random random = new ((int)(currentPos.x + currentPos.z) * 1000);
-
             // Calculate the center Z point as a ratio of length from end to start (i.e. reverse).
             float zLength = math.abs(zBounds.max - zBounds.min);
             float zCenter = zBounds.min + (zLength * 0.5f);
             float zCenterRatio = (zCenter / zLength) + 0.5f;
 
-            // Calculate line start and ending elevations if needed for elevation modes.
-            float startingElevation = 0f;
-            float endingElevation = 0f;
-            if (elevationMode != ElevationMode.FollowTerrain)
+            // Calculate line start and ending elevations.
+            CalculateLineElevations(elevation, ref heightData, currentPos, out float startingElevation, out float endingElevation);
+
+            // Place objects along each row, offsetting the curve laterally for parallel rows.
+            // Staggering isn't applied in fence or wall-to-wall modes, where items need to join up.
+            bool allowStagger = spacingMode != SpacingMode.FenceMode && spacingMode != SpacingMode.W2WMode;
+            m_parallelRowCurves.Clear();
+            for (int row = 0; row < parallelRows.RowCount; ++row)
             {
-                startingElevation = TerrainUtils.SampleHeight(ref heightData, m_startPos);
-                if (elevationMode == ElevationMode.ConstantSlope)
+                System.Random random = CreateRandom(randomSeed, row);
+                Bezier4x3 rowCurve = _thisBezier;
+                if (parallelRows.RowCount > 1)
                 {
-                    endingElevation = TerrainUtils.SampleHeight(ref heightData, m_endPos);
+                    rowCurve = OffsetCurve(currentPos, parallelRows.GetOffset(row));
+                    m_parallelRowCurves.Add(rowCurve);
                 }
-            }
-
-            // Traverse Bezier and place objects.
-            float tFactor = 0f;
-            float distanceTravelled = 0f;
 
-            float endTFactor = 1.0f;
-            if (spacingMode == SpacingMode.FenceMode)
-            {
-                endTFactor = BezierStepReverse(1.0f, zLength);
-            }
-
-            while (tFactor <= endTFactor)
-            {
-                // Apply spacing randomization.
-                float adjustedT = tFactor;
-                if (randomSpacing > 0f && spacingMode != SpacingMode.FenceMode && spacingMode != SpacingMode.W2WMode)
+                // Scale spacing to row length for full-length and count modes, so each row gets the same number of items.
+                float rowLength = MathUtils.Length(rowCurve);
+                float rowSpacing = adjustedSpacing;
+                if ((spacingMode == SpacingMode.FullLength || spacingMode == SpacingMode.Count) && length > 0f)
                 {
-                    float spacingAdjustment = (float)(random.NextDouble() * randomSpacing * 2f) - randomSpacing;
-                    adjustedT = spacingAdjustment < 0f ? BezierStepReverse(tFactor, spacingAdjustment) : BezierStep(tFactor, spacingAdjustment);
+                    rowSpacing = adjustedSpacing * rowLength / length;
                 }
 
-                // Calculate point.
-                float3 thisPoint = MathUtils.Position(_thisBezier, adjustedT);
+                bool staggered = allowStagger && parallelRows.IsStaggered(row);
 
-                // Apply offset randomization.
-                if (randomOffset > 0f && spacingMode != SpacingMode.FenceMode)
+                // Traverse Bezier and place objects.
+                float tFactor = 0f;
+                float distanceTravelled = 0f;
+                if (staggered)
                 {
-                    float3 tangent = MathUtils.Tangent(_thisBezier, adjustedT);
-                    float3 left = math.normalize(new float3(-tangent.z, 0f, tangent.x));
-                    thisPoint += left * ((float)(randomOffset * random.NextDouble() * 2f) - randomOffset);
+                    tFactor = BezierStep(rowCurve, 0f, rowSpacing * 0.5f);
+                    distanceTravelled = rowSpacing * 0.5f;
                 }
 
-                // Get next t factor.
-                tFactor = BezierStep(tFactor, adjustedSpacing);
-                distanceTravelled += adjustedSpacing;
-
-                // Calculate position and rotation.
+                float endTFactor = 1.0f;
                 if (spacingMode == SpacingMode.FenceMode)
                 {
-                    // Fence mode.
-                    float3 nextPoint = MathUtils.Position(_thisBezier, tFactor);
+                    endTFactor = BezierStepReverse(rowCurve, 1.0f, zLength);
+                }
 
-                    // Check validity of result.
-                    if (float.IsNaN(nextPoint.x) || float.IsNaN(nextPoint.y) || float.IsNaN(nextPoint.z))
+                while (tFactor <= endTFactor)
+                {
+                    // Apply spacing randomization.
+                    float adjustedT = tFactor;
+                    if (randomSpacing > 0f && spacingMode != SpacingMode.FenceMode && spacingMode != SpacingMode.W2WMode)
                     {
-                        continue;
+                        float spacingAdjustment = (float)(random.NextDouble() * randomSpacing * 2f) - randomSpacing;
+                        adjustedT = spacingAdjustment < 0f ? BezierStepReverse(rowCurve, tFactor, spacingAdjustment) : BezierStep(rowCurve, tFactor, spacingAdjustment);
                     }
 
-                    // Apply rotation.
-                    float effectiveRotation = CalculateRelativeAngle(thisPoint, nextPoint, 0f);
-                    qRotation = quaternion.Euler(0f, effectiveRotation, 0f);
-
-                    // Interpolate exact location of this point based on the centre z point of the mesh.
-                    thisPoint = math.lerp(nextPoint, thisPoint, zCenterRatio);
-                }
-                else if (spacingMode == SpacingMode.W2WMode)
-                {
-                    // Wall-to-wall mode.
-                    float3 nextPoint = MathUtils.Position(_thisBezier, tFactor);
+                    // Calculate point.
+                    float3 thisPoint = MathUtils.Position(rowCurve, adjustedT);
 
-                    // Check validity of result.
-                    if (float.IsNaN(nextPoint.x) || float.IsNaN(nextPoint.y) || float.IsNaN(nextPoint.z))
+                    // Apply offset randomization.
+                    if (randomOffset > 0f && spacingMode != SpacingMode.FenceMode)
                     {
-                        continue;
+                        float3 tangent = MathUtils.Tangent(rowCurve, adjustedT);
+                        float3 left = math.normalize(new float3(-tangent.z, 0f, tangent.x));
+                        thisPoint += left * ((float)(randomOffset * random.NextDouble() * 2f) - randomOffset);
                     }
 
-                    // Apply rotation.
-                    float relativeAngle = CalculateRelativeAngle(thisPoint, MathUtils.Position(_thisBezier, tFactor), math.PI / 2f);
-                    qRotation = quaternion.Euler(0f, relativeAngle, 0f);
-                    thisPoint = (nextPoint + thisPoint) / 2f;
-                }
-                else if (rotationMode == RotationMode.Relative)
-                {
-                    // Apply rotation.
-                    float relativeAngle = CalculateRelativeAngle(thisPoint, MathUtils.Position(_thisBezier, tFactor), rotationRadians);
-                    qRotation = quaternion.Euler(0f, relativeAngle, 0f);
-                }
+                    // Get next t factor.
+                    tFactor = BezierStep(rowCurve, tFactor, rowSpacing);
+                    distanceTravelled += rowSpacing;
 
-                // Calculate point elevation.
-                thisPoint.y = CalculateElevation(elevationMode, ref heightData, thisPoint, startingElevation, endingElevation);
+                    // Calculate position and rotation.
+                    if (spacingMode == SpacingMode.FenceMode)
+                    {
+                        // Fence mode.
+                        float3 nextPoint = MathUtils.Position(rowCurve, tFactor);
 
-                // Add point to list.
-                pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
-            }
+                        // Check validity of result.
+                        if (float.IsNaN(nextPoint.x) || float.IsNaN(nextPoint.y) || float.IsNaN(nextPoint.z))
+                        {
+                            continue;
+                        }
 
-            // Final item for fence mode.
-            if (spacingMode == SpacingMode.FenceMode)
-            {
-                // Don't do anything if we're close enough to a natural length.
-                if (distanceTravelled - length < zLength * 0.05f)
-                {
-                    // Calculate endpoints for this item starting from the bezier end curve and working backwards.
-                    float3 endPoint = MathUtils.Position(_thisBezier, 1f);
-                    float3 previousPoint = MathUtils.Position(_thisBezier, BezierStepReverse(1f, adjustedSpacing));
+                        // Apply rotation.
+                        float effectiveRotation = CalculateRelativeAngle(thisPoint, nextPoint, 0f);
+                        qRotation = quaternion.Euler(0f, effectiveRotation, 0f);
 
-                    // Apply rotation.
-                    float effectiveRotation = CalculateRelativeAngle(previousPoint, endPoint, 0f);
-                    qRotation = quaternion.Euler(0f, effectiveRotation, 0f);
+                        // Interpolate exact location of this point based on the centre z point of the mesh.
+                        thisPoint = math.lerp(nextPoint, thisPoint, zCenterRatio);
+                    }
+                    else if (spacingMode == SpacingMode.W2WMode)
+                    {
+                        // Wall-to-wall mode.
+                        float3 nextPoint = MathUtils.Position(rowCurve, tFactor);
+
+                        // Check validity of result.
+                        if (float.IsNaN(nextPoint.x) || float.IsNaN(nextPoint.y) || float.IsNaN(nextPoint.z))
+                        {
+                            continue;
+                        }
+
+                        // Apply rotation.
+                        float relativeAngle = CalculateRelativeAngle(thisPoint, MathUtils.Position(rowCurve, tFactor), math.PI / 2f);
+                        qRotation = quaternion.Euler(0f, relativeAngle, 0f);
+                        thisPoint = (nextPoint + thisPoint) / 2f;
+                    }
+                    else if (rotationMode == RotationMode.Relative)
+                    {
+                        // Apply rotation.
+                        float relativeAngle = CalculateRelativeAngle(thisPoint, MathUtils.Position(rowCurve, tFactor), rotationRadians);
+                        qRotation = quaternion.Euler(0f, relativeAngle, 0f);
+                    }
 
-                    // Interpolate exact location of this point based on the centre z point of the mesh.
-                    float3 thisPoint = math.lerp(endPoint, previousPoint, zCenterRatio);
+                    // Calculate point elevation.
+                    thisPoint.y = CalculateElevation(elevation.Mode, ref heightData, thisPoint, startingElevation, endingElevation);
 
                     // Add point to list.
-                    thisPoint.y = CalculateElevation(elevationMode, ref heightData, thisPoint, startingElevation, endingElevation);
                     pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
                 }
-            }
 
-            // Otherwise, final item if we haven't placed but are within 2% of final placement distance.
-            else if (distanceTravelled < length + (adjustedSpacing * 0.02f))
-            {
-                float3 thisPoint = currentPos;
-                thisPoint.y = CalculateElevation(elevationMode, ref heightData, thisPoint, startingElevation, endingElevation);
+                // Final item for fence mode.
+                if (spacingMode == SpacingMode.FenceMode)
+                {
+                    // Don't do anything if we're close enough to a natural length.
+                    if (distanceTravelled - rowLength < zLength * 0.05f)
+                    {
+                        // Calculate endpoints for this item starting from the bezier end curve and working backwards.
+                        float3 endPoint = MathUtils.Position(rowCurve, 1f);
+                        float3 previousPoint = MathUtils.Position(rowCurve, BezierStepReverse(rowCurve, 1f, rowSpacing));
+
+                        // Apply rotation.
+                        float effectiveRotation = CalculateRelativeAngle(previousPoint, endPoint, 0f);
+                        qRotation = quaternion.Euler(0f, effectiveRotation, 0f);
 
-                // Add point to list.
-                pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
+                        // Interpolate exact location of this point based on the centre z point of the mesh.
+                        float3 thisPoint = math.lerp(endPoint, previousPoint, zCenterRatio);
+
+                        // Add point to list.
+                        thisPoint.y = CalculateElevation(elevation.Mode, ref heightData, thisPoint, startingElevation, endingElevation);
+                        pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
+                    }
+                }
+
+                // Otherwise, final item if we haven't placed but are within 2% of final placement distance (staggered rows stop short of the end).
+                else if (!staggered && distanceTravelled < rowLength + (rowSpacing * 0.02f))
+                {
+                    float3 thisPoint = rowCurve.d;
+                    thisPoint.y = CalculateElevation(elevation.Mode, ref heightData, thisPoint, startingElevation, endingElevation);
+
+                    // Add point to list.
+                    pointList.Add(new PointData { Position = thisPoint, Rotation = qRotation, });
+                }
             }
 
             // Record end position for overlays.
@@ -246,6 +274,7 @@ namespace LineTool
 
                     // Draw curved line.
                     DrawCurvedLine(_thisBezier, overlayBuffer);
+                    DrawParallelRows(overlayBuffer);
                 }
                 else
                 {
@@ -269,20 +298,43 @@ namespace LineTool
             base.Reset();
         }
 
+        /// <summary>
+        /// Calculates a curve laterally offset from the current curve, by offsetting both control lines and fitting a new curve between them.
+        /// </summary>
+        /// <param name="currentPos">Selection current position.</param>
+        /// <param name="offset">Lateral offset (positive to the left).</param>
+        /// <returns>Offset curve.</returns>
+        private Bezier4x3 OffsetCurve(float3 currentPos, float offset)
+        {
+            // Left-hand normals of each control line.
+            float3 line1 = ElbowPoint - m_startPos;
+            float3 line2 = currentPos - ElbowPoint;
+            float3 normal1 = math.normalizesafe(new float3(-line1.z, 0f, line1.x));
+            float3 normal2 = math.normalizesafe(new float3(-line2.z, 0f, line2.x));
+
+            // Offset the elbow along the mitre between both lines, falling back to the first line normal for (near) reversals.
+            float3 mitre = math.normalizesafe(normal1 + normal2, normal1);
+            float mitreScale = math.dot(mitre, normal1);
+            float3 elbow = ElbowPoint + (mitre * (mitreScale > 0.1f ? offset / mitreScale : offset));
+
+            return NetUtils.FitCurve(new Line3.Segment(m_startPos + (normal1 * offset), elbow), new Line3.Segment(currentPos + (normal2 * offset), elbow));
+        }
+
         /// <summary>
         /// Steps along a Bezier calculating the target t factor for the given starting t factor and the given distance.
         /// Code based on Alterran's PropLineTool (StepDistanceCurve, Utilities/PLTMath.cs).
         /// </summary>
+        /// <param name="curve">Bezier curve.</param>
         /// <param name="tStart">Starting t factor.</param>
         /// <param name="distance">Distance to travel.</param>
         /// <returns>Target t factor.</returns>
-        private float BezierStep(float tStart, float distance)
+        private float BezierStep(Bezier4x3 curve, float tStart, float distance)
         {
             const float Tolerance = 0.001f;
             const float ToleranceSquared = Tolerance * Tolerance;
 
-            float tEnd = Travel(tStart, distance);
-            float usedDistance = CubicBezierArcLengthXZGauss04(tStart, tEnd);
+            float tEnd = Travel(curve, tStart, distance);
+            float usedDistance = CubicBezierArcLengthXZGauss04(curve, tStart, tEnd);
 
             // Twelve iteration maximum for performance and to prevent infinite loops.
             for (int i = 0; i < 12; ++i)
@@ -294,8 +346,8 @@ namespace LineTool
                     break;
                 }
 
-                usedDistance = CubicBezierArcLengthXZGauss04(tStart, tEnd);
-                tEnd += (distance - usedDistance) / CubicSpeedXZ(tEnd);
+                usedDistance = CubicBezierArcLengthXZGauss04(curve, tStart, tEnd);
+                tEnd += (distance - usedDistance) / CubicSpeedXZ(curve, tEnd);
             }
 
             return tEnd;
@@ -305,16 +357,17 @@ namespace LineTool
         /// Steps along a Bezier BACKWARDS from the given t factor, calculating the target t factor for the given spacing distance.
         /// Code based on Alterran's PropLineTool (StepDistanceCurve, Utilities/PLTMath.cs).
         /// </summary>
+        /// <param name="curve">Bezier curve.</param>
         /// <param name="tStart">Starting t factor.</param>
         /// <param name="distance">Distance to travel.</param>
         /// <returns>Target t factor.</returns>
-        private float BezierStepReverse(float tStart, float distance)
+        private float BezierStepReverse(Bezier4x3 curve, float tStart, float distance)
         {
             const float Tolerance = 0.001f;
             const float ToleranceSquared = Tolerance * Tolerance;
 
-            float tEnd = Travel(tStart, -distance);
-            float usedDistance = CubicBezierArcLengthXZGauss04(tEnd, tStart);
+            float tEnd = Travel(curve, tStart, -distance);
+            float usedDistance = CubicBezierArcLengthXZGauss04(curve, tEnd, tStart);
 
             // Twelve iteration maximum for performance and to prevent infinite loops.
             for (int i = 0; i < 12; ++i)
@@ -326,8 +379,8 @@ namespace LineTool
                     break;
                 }
 
-                usedDistance = CubicBezierArcLengthXZGauss04(tEnd, tStart);
-                tEnd -= (distance - usedDistance) / CubicSpeedXZ(tEnd);
+                usedDistance = CubicBezierArcLengthXZGauss04(curve, tEnd, tStart);
+                tEnd -= (distance - usedDistance) / CubicSpeedXZ(curve, tEnd);
             }
 
             return tEnd;
@@ -337,12 +390,13 @@ namespace LineTool
         /// From Alterann's PropLineTool (CubicSpeedXZ, Utilities/PLTMath.cs).
         /// Returns the integrand of the arc length function for a cubic Bezier curve, constrained to the XZ-plane at a specific t.
         /// </summary>
+        /// <param name="curve">Bezier curve.</param>
         /// <param name="t"> t factor.</param>
         /// <returns>Integrand of arc length.</returns>
-        private float CubicSpeedXZ(float t)
+        private float CubicSpeedXZ(Bezier4x3 curve, float t)
         {
             // Pythagorean theorem.
-            float3 tangent = MathUtils.Tangent(_thisBezier, t);
+            float3 tangent = MathUtils.Tangent(curve, t);
             float derivXsqr = tangent.x * tangent.x;
             float derivZsqr = tangent.z * tangent.z;
 
@@ -354,18 +408,19 @@ namespace LineTool
         /// Returns the XZ arclength of a cubic Bezier curve between two t factors.
         /// Uses Gauss–Legendre Quadrature with n = 4.
         /// </summary>
+        /// <param name="curve">Bezier curve.</param>
         /// <param name="t1">Starting t factor.</param>
         /// <param name="t2">Ending t factor.</param>
         /// <returns>XZ arc length.</returns>
-        private float CubicBezierArcLengthXZGauss04(float t1, float t2)
+        private float CubicBezierArcLengthXZGauss04(Bezier4x3 curve, float t1, float t2)
         {
             float linearAdj = (t2 - t1) / 2f;
 
             // Constants are from Gauss-Lengendre quadrature rules for n = 4.
-            float p1 = CubicSpeedXZGaussPoint(0.3399810435848563f, 0.6521451548625461f, t1, t2);
-            float p2 = CubicSpeedXZGaussPoint(-0.3399810435848563f, 0.6521451548625461f, t1, t2);
-            float p3 = CubicSpeedXZGaussPoint(0.8611363115940526f, 0.3478548451374538f, t1, t2);
-            float p4 = CubicSpeedXZGaussPoint(-0.8611363115940526f, 0.3478548451374538f, t1, t2);
+            float p1 = CubicSpeedXZGaussPoint(curve, 0.3399810435848563f, 0.6521451548625461f, t1, t2);
+            float p2 = CubicSpeedXZGaussPoint(curve, -0.3399810435848563f, 0.6521451548625461f, t1, t2);
+            float p3 = CubicSpeedXZGaussPoint(curve, 0.8611363115940526f, 0.3478548451374538f, t1, t2);
+            float p4 = CubicSpeedXZGaussPoint(curve, -0.8611363115940526f, 0.3478548451374538f, t1, t2);
 
             return linearAdj * (p1 + p2 + p3 + p4);
         }
@@ -373,27 +428,29 @@ namespace LineTool
         /// <summary>
         /// From Alterann's PropLineTool (CubicSpeedXZGaussPoint, Utilities/PLTMath.cs).
         /// </summary>
+        /// <param name="curve">Bezier curve.</param>
         /// <param name="x_i">X i.</param>
         /// <param name="w_i">W i.</param>
         /// <param name="a">a.</param>
         /// <param name="b">b.</param>
         /// <returns>Cubic speed.</returns>
-        private float CubicSpeedXZGaussPoint(float x_i, float w_i, float a, float b)
+        private float CubicSpeedXZGaussPoint(Bezier4x3 curve, float x_i, float w_i, float a, float b)
         {
             float linearAdj = (b - a) / 2f;
             float constantAdj = (a + b) / 2f;
-            return w_i * CubicSpeedXZ((linearAdj * x_i) + constantAdj);
+            return w_i * CubicSpeedXZ(curve, (linearAdj * x_i) + constantAdj);
         }
 
         /// <summary>
         /// Based on CS1's mathematics calculations for Bezier travel.
         /// </summary>
+        /// <param name="curve">Bezier curve.</param>
         /// <param name="start">Starting t-factor.</param>
         /// <param name="distance">Distance to travel.</param>
         /// <returns>Ending t-factor.</returns>
-        private float Travel(float start, float distance)
+        private float Travel(Bezier4x3 curve, float start, float distance)
         {
-            Vector3 startPos = MathUtils.Position(_thisBezier, start);
+            Vector3 startPos = MathUtils.Position(curve, start);
 
             if (distance < 0f)
             {
@@ -401,7 +458,7 @@ namespace LineTool
                 distance = 0f - distance;
                 float startT = 0f;
                 float endT = start;
-                float startDistance = Vector3.SqrMagnitude(_thisBezier.a - (float3)startPos);
+                float startDistance = Vector3.SqrMagnitude(curve.a - (float3)startPos);
                 float endDistance = 0f;
 
                 // Eight steps max.
@@ -409,7 +466,7 @@ namespace LineTool
                 {
                     // Calculate current position.
                     float midT = (startT + endT) * 0.5f;
-                    Vector3 midpoint = MathUtils.Position(_thisBezier, midT);
+                    Vector3 midpoint = MathUtils.Position(curve, midT);
                     float midDistance = Vector3.SqrMagnitude(midpoint - startPos);
 
                     // Check for nearer match.
@@ -446,14 +503,14 @@ namespace LineTool
                 float startT = start;
                 float endT = 1f;
                 float startDistance = 0f;
-                float endDistance = Vector3.SqrMagnitude(_thisBezier.d - (float3)startPos);
+                float endDistance = Vector3.SqrMagnitude(curve.d - (float3)startPos);
 
                 // Eight steps max.
                 for (int i = 0; i < 8; ++i)
                 {
                     // Calculate current position.
                     float tMid = (startT + endT) * 0.5f;
-                    Vector3 midPoint = MathUtils.Position(_thisBezier, tMid);
+                    Vector3 midPoint = MathUtils.Position(curve, tMid);
                     float midDistance = Vector3.SqrMagnitude(midPoint - startPos);
 
                     // Check for nearer match.
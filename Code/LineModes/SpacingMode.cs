@@ -30,5 +30,10 @@ namespace LineTool
         /// Evenly spaced along entire length of line.
         /// </summary>
         FullLength,
+
+        /// <summary>
+        /// Fixed number of items evenly spaced along entire length of line.
+        /// </summary>
+        Count,
     }
 }
@@ -222,6 +222,8 @@ namespace LineTool
         ///     Options.OPTION - basic options menu control labels.
         ///     Options.OPTION_DESCRIPTION - options menu detailed control descriptions, displayed in the panel to the right of the controls.
         ///     Options.WARNING - options menu warning messaged displayed in pop-up dialogs.
+        ///     Options.BINDING - key binding names (by input action name), displayed in the options menu and key conflict warnings.
+        ///     Options.BINDING_MAP - the mod's key binding map name (the key value is ignored).
         /// </summary>
         /// <param name="translationKey">Translation key.</param>
         /// <param name="settings">Mod settings instance.</param>
@@ -249,6 +251,8 @@ namespace LineTool
                 "Options.OPTION" => settings.GetOptionLabelLocaleID(key),
                 "Options.OPTION_DESCRIPTION" => settings.GetOptionDescLocaleID(key),
                 "Options.WARNING" => settings.GetOptionWarningLocaleID(key),
+                "Options.BINDING" => settings.GetBindingKeyLocaleID(key),
+                "Options.BINDING_MAP" => settings.GetBindingMapLocaleID(),
                 _ => settings.GetSettingsLocaleID(),
             };
         }
@@ -7,6 +7,7 @@
 namespace LineTool
 {
     using Colossal.IO.AssetDatabase;
+    using Game.Input;
     using Game.Modding;
     using Game.Settings;
     using Game.UI;
@@ -15,8 +16,125 @@ namespace LineTool
     /// The mod's settings.
     /// </summary>
     [FileLocation(Mod.ModName)]
+    [SettingsUIKeyboardAction(PointModeActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(StraightLineModeActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(SimpleCurveModeActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(CircleModeActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(GridModeActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(PolylineModeActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(FollowNetworkModeActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(ToggleFenceModeActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(ToggleW2WModeActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(ToggleRandomizationActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(IncreaseSpacingActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(DecreaseSpacingActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(IncreaseRotationActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(DecreaseRotationActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
+    [SettingsUIKeyboardAction(CycleElevationModeActionName, ActionType.Button, usages: new string[] { Usages.kToolUsage })]
     internal class ModSettings : ModSetting
     {
+        /// <summary>
+        /// Input action name for switching to point mode.
+        /// </summary>
+        internal const string PointModeActionName = "PointMode";
+
+        /// <summary>
+        /// Input action name for switching to straight line mode.
+        /// </summary>
+        internal const string StraightLineModeActionName = "StraightLineMode";
+
+        /// <summary>
+        /// Input action name for switching to simple curve mode.
+        /// </summary>
+        internal const string SimpleCurveModeActionName = "SimpleCurveMode";
+
+        /// <summary>
+        /// Input action name for switching to circle mode.
+        /// </summary>
+        internal const string CircleModeActionName = "CircleMode";
+
+        /// <summary>
+        /// Input action name for switching to grid mode.
+        /// </summary>
+        internal const string GridModeActionName = "GridMode";
+
+        /// <summary>
+        /// Input action name for switching to polyline mode.
+        /// </summary>
+        internal const string PolylineModeActionName = "PolylineMode";
+
+        /// <summary>
+        /// Input action name for switching to follow-network mode.
+        /// </summary>
+        internal const string FollowNetworkModeActionName = "FollowNetworkMode";
+
+        /// <summary>
+        /// Input action name for toggling fence mode.
+        /// </summary>
+        internal const string ToggleFenceModeActionName = "ToggleFenceMode";
+
+        /// <summary>
+        /// Input action name for toggling wall-to-wall mode.
+        /// </summary>
+        internal const string ToggleW2WModeActionName = "ToggleW2WMode";
+
+        /// <summary>
+        /// Input action name for toggling randomization.
+        /// </summary>
+        internal const string ToggleRandomizationActionName = "ToggleRandomization";
+
+        /// <summary>
+        /// Input action name for increasing spacing.
+        /// </summary>
+        internal const string IncreaseSpacingActionName = "IncreaseSpacing";
+
+        /// <summary>
+        /// Input action name for decreasing spacing.
+        /// </summary>
+        internal const string DecreaseSpacingActionName = "DecreaseSpacing";
+
+        /// <summary>
+        /// Input action name for increasing rotation.
+        /// </summary>
+        internal const string IncreaseRotationActionName = "IncreaseRotation";
+
+        /// <summary>
+        /// Input action name for decreasing rotation.
+        /// </summary>
+        internal const string DecreaseRotationActionName = "DecreaseRotation";
+
+        /// <summary>
+        /// Input action name for cycling through elevation modes.
+        /// </summary>
+        internal const string CycleElevationModeActionName = "CycleElevationMode";
+
+        /// <summary>
+        /// Tool options sections that are collapsed by default (comma-separated).
+        /// </summary>
+        internal const string DefaultCollapsedSections = "Advanced";
+
+        /// <summary>
+        /// Input action names for all hotkeys, in display order.
+        /// </summary>
+        internal static readonly string[] HotkeyActionNames = new string[]
+        {
+            PointModeActionName,
+            StraightLineModeActionName,
+            SimpleCurveModeActionName,
+            CircleModeActionName,
+            GridModeActionName,
+            PolylineModeActionName,
+            FollowNetworkModeActionName,
+            ToggleFenceModeActionName,
+            ToggleW2WModeActionName,
+            ToggleRandomizationActionName,
+            IncreaseSpacingActionName,
+            DecreaseSpacingActionName,
+            IncreaseRotationActionName,
+            DecreaseRotationActionName,
+            CycleElevationModeActionName,
+        };
+
         private float _guidelineTransparency = 0f;
 
         /// <summary>
@@ -50,6 +168,111 @@ namespace LineTool
             }
         }
 
+        /// <summary>
+        /// Gets or sets the names of the collapsed tool options sections (comma-separated).
+        /// </summary>
+        [SettingsUIHidden]
+        public string CollapsedSections { get; set; } = DefaultCollapsedSections;
+
+        /// <summary>
+        /// Gets or sets the key binding for switching to point mode.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit1, PointModeActionName, alt: true)]
+        public ProxyBinding PointModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for switching to straight line mode.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit2, StraightLineModeActionName, alt: true)]
+        public ProxyBinding StraightLineModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for switching to simple curve mode.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit3, SimpleCurveModeActionName, alt: true)]
+        public ProxyBinding SimpleCurveModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for switching to circle mode.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit4, CircleModeActionName, alt: true)]
+        public ProxyBinding CircleModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for switching to grid mode.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit5, GridModeActionName, alt: true)]
+        public ProxyBinding GridModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for switching to polyline mode.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit6, PolylineModeActionName, alt: true)]
+        public ProxyBinding PolylineModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for switching to follow-network mode.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit7, FollowNetworkModeActionName, alt: true)]
+        public ProxyBinding FollowNetworkModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for toggling fence mode.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.F, ToggleFenceModeActionName, alt: true)]
+        public ProxyBinding ToggleFenceModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for toggling wall-to-wall mode.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.W, ToggleW2WModeActionName, alt: true)]
+        public ProxyBinding ToggleW2WModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for toggling randomization.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.R, ToggleRandomizationActionName, alt: true)]
+        public ProxyBinding ToggleRandomizationBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for increasing spacing.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Equals, IncreaseSpacingActionName, alt: true)]
+        public ProxyBinding IncreaseSpacingBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for decreasing spacing.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Minus, DecreaseSpacingActionName, alt: true)]
+        public ProxyBinding DecreaseSpacingBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for increasing rotation.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.RightBracket, IncreaseRotationActionName, alt: true)]
+        public ProxyBinding IncreaseRotationBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for decreasing rotation.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.LeftBracket, DecreaseRotationActionName, alt: true)]
+        public ProxyBinding DecreaseRotationBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for cycling through elevation modes.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.E, CycleElevationModeActionName, alt: true)]
+        public ProxyBinding CycleElevationModeBinding { get; set; }
+
+        /// <summary>
+        /// Sets a value indicating whether key bindings should be reset to their defaults (button press).
+        /// </summary>
+        [SettingsUIButton]
+        public bool ResetBindings
+        {
+            set => ResetKeyBindings();
+        }
+
         /// <summary>
         /// Gets the Hover Colors compatibility message.
         /// </summary>
@@ -87,6 +310,7 @@ namespace LineTool
         public override void SetDefaults()
         {
             GuidelineTransparency = 0f;
+            CollapsedSections = DefaultCollapsedSections;
         }
     }
 }
@@ -0,0 +1,53 @@
+﻿// <copyright file="PrefabMixEntry.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    using Colossal.Mathematics;
+    using Game.Prefabs;
+    using Unity.Entities;
+
+    /// <summary>
+    /// An entry in the prefab mix.
+    /// </summary>
+    public sealed class PrefabMixEntry
+    {
+        /// <summary>
+        /// Gets or sets the entry prefab.
+        /// </summary>
+        public ObjectGeometryPrefab Prefab { get; set; }
+
+        /// <summary>
+        /// Gets or sets the entry prefab entity.
+        /// </summary>
+        public Entity Entity { get; set; }
+
+        /// <summary>
+        /// Gets or sets the prefab's mesh x-bounds.
+        /// </summary>
+        public Bounds1 XBounds { get; set; }
+
+        /// <summary>
+        /// Gets or sets the prefab's mesh z-bounds.
+        /// </summary>
+        public Bounds1 ZBounds { get; set; }
+
+        /// <summary>
+        /// Gets or sets the entry's relative weight.
+        /// </summary>
+        public int Weight { get; set; } = 1;
+
+        /// <summary>
+        /// Gets a value indicating whether fence mode is valid for this prefab.
+        /// </summary>
+        public bool FenceModeValid => ZBounds.min != 0 || ZBounds.max != 0;
+
+        /// <summary>
+        /// Gets a value indicating whether wall-to-wall mode is valid for this prefab.
+        /// </summary>
+        public bool W2WModeValid => XBounds.min != 0 && XBounds.max != 0;
+    }
+}
@@ -0,0 +1,24 @@
+﻿// <copyright file="PrefabMixOrder.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    /// <summary>
+    /// Prefab mix placement orders.
+    /// </summary>
+    public enum PrefabMixOrder
+    {
+        /// <summary>
+        /// Prefabs are chosen at random, weighted by each entry's relative weight.
+        /// </summary>
+        Random,
+
+        /// <summary>
+        /// Prefabs are placed in strict list order, with each entry repeated according to its weight.
+        /// </summary>
+        Alternating,
+    }
+}
@@ -0,0 +1,229 @@
+﻿// <copyright file="LineLayout.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    using System;
+    using System.Collections.Generic;
+    using System.IO;
+    using System.Runtime.Serialization;
+    using System.Runtime.Serialization.Json;
+    using System.Text;
+    using Unity.Mathematics;
+
+    /// <summary>
+    /// A line layout (control points, settings and placed item positions) for exchange as JSON via the clipboard.
+    /// Enum values are recorded by name, so layouts remain readable (and editable) by hand.
+    /// </summary>
+    [DataContract]
+    public sealed class LineLayout
+    {
+        /// <summary>
+        /// Current layout format version.
+        /// </summary>
+        public const int CurrentVersion = 1;
+
+        /// <summary>
+        /// Gets or sets the layout format version.
+        /// </summary>
+        [DataMember(Name = "version", Order = 0)]
+        public int Version { get; set; } = CurrentVersion;
+
+        /// <summary>
+        /// Gets or sets the prefab name.
+        /// </summary>
+        [DataMember(Name = "prefab", Order = 1)]
+        public string PrefabName { get; set; }
+
+        /// <summary>
+        /// Gets or sets the prefab type name.
+        /// </summary>
+        [DataMember(Name = "prefabType", Order = 2)]
+        public string PrefabType { get; set; }
+
+        /// <summary>
+        /// Gets or sets the line mode name.
+        /// </summary>
+        [DataMember(Name = "mode", Order = 3)]
+        public string Mode { get; set; }
+
+        /// <summary>
+        /// Gets or sets the line control points (each as x, y, z).
+        /// </summary>
+        [DataMember(Name = "controlPoints", Order = 4)]
+        public List<float[]> ControlPoints { get; set; } = new ();
+
+        /// <summary>
+        /// Gets or sets the spacing mode name.
+        /// </summary>
+        [DataMember(Name = "spacingMode", Order = 5)]
+        public string SpacingMode { get; set; }
+
+        /// <summary>
+        /// Gets or sets the spacing distance.
+        /// </summary>
+        [DataMember(Name = "spacing", Order = 6)]
+        public float Spacing { get; set; }
+
+        /// <summary>
+        /// Gets or sets the rotation mode name.
+        /// </summary>
+        [DataMember(Name = "rotationMode", Order = 7)]
+        public string RotationMode { get; set; }
+
+        /// <summary>
+        /// Gets or sets the rotation setting.
+        /// </summary>
+        [DataMember(Name = "rotation", Order = 8)]
+        public int Rotation { get; set; }
+
+        /// <summary>
+        /// Gets or sets the elevation mode name.
+        /// </summary>
+        [DataMember(Name = "elevationMode", Order = 9)]
+        public string ElevationMode { get; set; }
+
+        /// <summary>
+        /// Gets or sets the random seed.
+        /// </summary>
+        [DataMember(Name = "seed", Order = 10)]
+        public int Seed { get; set; }
+
+        /// <summary>
+        /// Gets or sets the placed item points.
+        /// </summary>
+        [DataMember(Name = "points", Order = 11)]
+        public List<LayoutPoint> Points { get; set; } = new ();
+
+        /// <summary>
+        /// Attempts to parse a layout from the given JSON text, validating its contents.
+        /// </summary>
+        /// <param name="json">JSON text to parse.</param>
+        /// <param name="layout">Parsed layout (<c>null</c> if parsing failed).</param>
+        /// <param name="errorKey">Localization key of the error message if parsing failed (<c>null</c> otherwise).</param>
+        /// <returns><c>true</c> if a valid layout was parsed, <c>false</c> otherwise.</returns>
+        public static bool TryParse(string json, out LineLayout layout, out string errorKey)
+        {
+            layout = null;
+
+            if (string.IsNullOrWhiteSpace(json))
+            {
+                errorKey = "LINETOOL.LayoutErrorEmpty";
+                return false;
+            }
+
+            try
+            {
+                using MemoryStream stream = new (Encoding.UTF8.GetBytes(json));
+                layout = new DataContractJsonSerializer(typeof(LineLayout)).ReadObject(stream) as LineLayout;
+            }
+            catch (Exception)
+            {
+                // Malformed JSON; handled below.
+                layout = null;
+            }
+
+            if (layout is null)
+            {
+                errorKey = "LINETOOL.LayoutErrorInvalid";
+                return false;
+            }
+
+            if (layout.Version != CurrentVersion)
+            {
+                layout = null;
+                errorKey = "LINETOOL.LayoutErrorVersion";
+                return false;
+            }
+
+            // Check required content.
+            if (string.IsNullOrEmpty(layout.PrefabName)
+                || layout.ControlPoints is null
+                || layout.ControlPoints.Count == 0
+                || layout.ControlPoints.Exists(x => x is null || x.Length != 3 || !IsFinite(x))
+                || layout.Points is null
+                || layout.Points.Count == 0
+                || layout.Points.Exists(x => x is null || x.Position is null || x.Position.Length != 3 || !IsFinite(x.Position) || !IsValidRotation(x.Rotation))
+                || !IsEnumName(typeof(SpacingMode), layout.SpacingMode)
+                || !IsEnumName(typeof(RotationMode), layout.RotationMode)
+                || !IsEnumName(typeof(ElevationMode), layout.ElevationMode))
+            {
+                layout = null;
+                errorKey = "LINETOOL.LayoutErrorInvalid";
+                return false;
+            }
+
+            errorKey = null;
+            return true;
+        }
+
+        /// <summary>
+        /// Converts a position to its layout representation.
+        /// </summary>
+        /// <param name="position">Position to convert.</param>
+        /// <returns>Position as an (x, y, z) array.</returns>
+        public static float[] ToArray(float3 position) => new float[] { position.x, position.y, position.z };
+
+        /// <summary>
+        /// Converts a position from its layout representation.
+        /// </summary>
+        /// <param name="position">Position as an (x, y, z) array.</param>
+        /// <returns>Converted position.</returns>
+        public static float3 ToFloat3(float[] position) => new (position[0], position[1], position[2]);
+
+        /// <summary>
+        /// Serializes this layout to JSON.
+        /// </summary>
+        /// <returns>JSON text.</returns>
+        public string ToJson()
+        {
+            using MemoryStream stream = new ();
+            new DataContractJsonSerializer(typeof(LineLayout)).WriteObject(stream, this);
+            return Encoding.UTF8.GetString(stream.ToArray());
+        }
+
+        /// <summary>
+        /// Checks whether the given value is the name of a defined value of the given enum type (numeric values aren't accepted).
+        /// </summary>
+        /// <param name="enumType">Enum type.</param>
+        /// <param name="value">Value to check.</param>
+        /// <returns>True if the value names a defined enum value; otherwise false.</returns>
+        private static bool IsEnumName(Type enumType, string value) => value is not null && Enum.IsDefined(enumType, value);
+
+        /// <summary>
+        /// Checks whether all of the given values are finite.
+        /// </summary>
+        /// <param name="values">Values to check.</param>
+        /// <returns>True if all values are finite; otherwise false.</returns>
+        private static bool IsFinite(float[] values) => Array.TrueForAll(values, x => math.isfinite(x));
+
+        /// <summary>
+        /// Checks whether the given rotation is a valid (finite, non-zero length) quaternion.
+        /// </summary>
+        /// <param name="rotation">Rotation as an (x, y, z, w) array.</param>
+        /// <returns>True if the rotation is valid; otherwise false.</returns>
+        private static bool IsValidRotation(float[] rotation) => rotation is not null && rotation.Length == 4 && IsFinite(rotation) && math.lengthsq(new float4(rotation[0], rotation[1], rotation[2], rotation[3])) > 1e-6f;
+
+        /// <summary>
+        /// A placed item point.
+        /// </summary>
+        [DataContract]
+        public sealed class LayoutPoint
+        {
+            /// <summary>
+            /// Gets or sets the item position (x, y, z).
+            /// </summary>
+            [DataMember(Name = "position", Order = 0)]
+            public float[] Position { get; set; }
+
+            /// <summary>
+            /// Gets or sets the item rotation quaternion (x, y, z, w).
+            /// </summary>
+            [DataMember(Name = "rotation", Order = 1)]
+            public float[] Rotation { get; set; }
+        }
+    }
+}
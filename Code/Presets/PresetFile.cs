@@ -0,0 +1,82 @@
+﻿// <copyright file="PresetFile.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    using System;
+    using System.Collections.Generic;
+    using System.IO;
+    using System.Xml.Serialization;
+    using Colossal.Logging;
+
+    /// <summary>
+    /// Persistent storage for Line Tool presets.
+    /// </summary>
+    [XmlRoot("LineToolPresets")]
+    public sealed class PresetFile
+    {
+        /// <summary>
+        /// Gets or sets the list of saved presets.
+        /// </summary>
+        [XmlArray("Presets")]
+        [XmlArrayItem("Preset")]
+        public List<ToolPreset> Presets { get; set; } = new ();
+
+        /// <summary>
+        /// Gets the full path of the presets file.
+        /// </summary>
+        private static string FilePath => Path.Combine(UnityEngine.Application.persistentDataPath, "ModsSettings", Mod.ModName, "Presets.xml");
+
+        /// <summary>
+        /// Loads the presets file, returning an empty preset list if no file exists or the file couldn't be read.
+        /// </summary>
+        /// <param name="log">Log to use.</param>
+        /// <returns>Loaded presets.</returns>
+        internal static PresetFile Load(ILog log)
+        {
+            try
+            {
+                if (File.Exists(FilePath))
+                {
+                    using StreamReader reader = new (FilePath);
+                    if (new XmlSerializer(typeof(PresetFile)).Deserialize(reader) is PresetFile presetFile)
+                    {
+                        // Drop any unnamed entries.
+                        presetFile.Presets.RemoveAll(x => string.IsNullOrWhiteSpace(x?.Name));
+                        return presetFile;
+                    }
+
+                    log.Error($"unable to read presets file {FilePath}");
+                }
+            }
+            catch (Exception e)
+            {
+                log.Error(e, "exception reading presets file");
+            }
+
+            // If we got here, no valid file was loaded.
+            return new PresetFile();
+        }
+
+        /// <summary>
+        /// Saves the presets file.
+        /// </summary>
+        /// <param name="log">Log to use.</param>
+        internal void Save(ILog log)
+        {
+            try
+            {
+                Directory.CreateDirectory(Path.GetDirectoryName(FilePath));
+                using StreamWriter writer = new (FilePath);
+                new XmlSerializer(typeof(PresetFile)).Serialize(writer, this);
+            }
+            catch (Exception e)
+            {
+                log.Error(e, "exception saving presets file");
+            }
+        }
+    }
+}
@@ -0,0 +1,182 @@
+﻿// <copyright file="ToolPreset.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    using System.Xml.Serialization;
+
+    /// <summary>
+    /// A named Line Tool configuration preset.
+    /// </summary>
+    public sealed class ToolPreset
+    {
+        /// <summary>
+        /// Gets or sets the preset name.
+        /// </summary>
+        [XmlAttribute]
+        public string Name { get; set; }
+
+        /// <summary>
+        /// Gets or sets the line mode.
+        /// </summary>
+        public LineMode Mode { get; set; } = LineMode.Straight;
+
+        /// <summary>
+        /// Gets or sets the spacing mode.
+        /// </summary>
+        public SpacingMode SpacingMode { get; set; } = SpacingMode.Manual;
+
+        /// <summary>
+        /// Gets or sets the spacing distance.
+        /// </summary>
+        public float Spacing { get; set; } = 20f;
+
+        /// <summary>
+        /// Gets or sets the number of items to place in count mode.
+        /// </summary>
+        public int PlacementCount { get; set; } = 10;
+
+        /// <summary>
+        /// Gets or sets the spacing between grid rows.
+        /// </summary>
+        public float GridRowSpacing { get; set; } = 20f;
+
+        /// <summary>
+        /// Gets or sets the fixed number of grid columns.
+        /// </summary>
+        public int GridColumnCount { get; set; } = 5;
+
+        /// <summary>
+        /// Gets or sets the fixed number of grid rows.
+        /// </summary>
+        public int GridRowCount { get; set; } = 5;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the number of grid columns is fixed.
+        /// </summary>
+        public bool GridColumnCountLocked { get; set; } = false;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the number of grid rows is fixed.
+        /// </summary>
+        public bool GridRowCountLocked { get; set; } = false;
+
+        /// <summary>
+        /// Gets or sets the number of parallel rows (including the base line).
+        /// </summary>
+        public int ParallelRowCount { get; set; } = 1;
+
+        /// <summary>
+        /// Gets or sets the lateral distance between parallel rows.
+        /// </summary>
+        public float ParallelRowSpacing { get; set; } = 10f;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether alternate parallel rows are staggered.
+        /// </summary>
+        public bool ParallelRowsStaggered { get; set; } = false;
+
+        /// <summary>
+        /// Gets or sets the network side(s) to place along in follow-network mode.
+        /// </summary>
+        public NetworkSide NetworkSide { get; set; } = NetworkSide.Both;
+
+        /// <summary>
+        /// Gets or sets the lateral offset from the edge of the network in follow-network mode.
+        /// </summary>
+        public float NetworkOffset { get; set; } = 1f;
+
+        /// <summary>
+        /// Gets or sets the circle arc sweep angle (in degrees).
+        /// </summary>
+        public int CircleArcAngle { get; set; } = 360;
+
+        /// <summary>
+        /// Gets or sets the fixed circle start angle (compass bearing in degrees).
+        /// </summary>
+        public int CircleStartAngle { get; set; } = 0;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether circles start at the fixed start angle.
+        /// </summary>
+        public bool CircleStartAngleFixed { get; set; } = false;
+
+        /// <summary>
+        /// Gets or sets the rotation mode.
+        /// </summary>
+        public RotationMode RotationMode { get; set; } = RotationMode.Relative;
+
+        /// <summary>
+        /// Gets or sets the rotation angle (in degrees).
+        /// </summary>
+        public int Rotation { get; set; } = 0;
+
+        /// <summary>
+        /// Gets or sets the random spacing variation maximum.
+        /// </summary>
+        public float RandomSpacing { get; set; } = 0f;
+
+        /// <summary>
+        /// Gets or sets the random lateral offset maximum.
+        /// </summary>
+        public float RandomOffset { get; set; } = 0f;
+
+        /// <summary>
+        /// Gets or sets the elevation mode.
+        /// </summary>
+        public ElevationMode ElevationMode { get; set; } = ElevationMode.FollowTerrain;
+
+        /// <summary>
+        /// Gets or sets the fixed elevation mode height.
+        /// </summary>
+        public float FixedElevationHeight { get; set; } = 0f;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the fixed elevation mode height is absolute (otherwise it's an offset above terrain).
+        /// </summary>
+        public bool FixedElevationAbsolute { get; set; } = false;
+
+        /// <summary>
+        /// Gets or sets the constant slope mode fixed starting height.
+        /// </summary>
+        public float SlopeStartHeight { get; set; } = 0f;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the constant slope mode starting height is fixed.
+        /// </summary>
+        public bool SlopeStartHeightFixed { get; set; } = false;
+
+        /// <summary>
+        /// Gets or sets the constant slope mode fixed ending height.
+        /// </summary>
+        public float SlopeEndHeight { get; set; } = 0f;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the constant slope mode ending height is fixed.
+        /// </summary>
+        public bool SlopeEndHeightFixed { get; set; } = false;
+
+        /// <summary>
+        /// Gets or sets the constant slope mode fixed gradient (in percent).
+        /// </summary>
+        public float SlopePercent { get; set; } = 0f;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the constant slope mode gradient is fixed.
+        /// </summary>
+        public bool SlopeFixed { get; set; } = false;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether randomization is enabled.
+        /// </summary>
+        public bool RandomizationEnabled { get; set; } = true;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether snap-to-length is enabled.
+        /// </summary>
+        public bool LengthSnapEnabled { get; set; } = false;
+    }
+}
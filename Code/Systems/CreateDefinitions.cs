@@ -48,7 +48,7 @@ namespace LineTool
         [ReadOnly]
         public Entity m_Theme;
         [ReadOnly]
-        public RandomSeed m_RandomSeed;
+        public uint m_RandomSeed;
         [ReadOnly]
         public AgeMask m_AgeMask;
         [ReadOnly]
@@ -312,7 +312,7 @@ namespace LineTool
                 Entity entity5 = m_ObjectPrefab;
                 if (entity2 == Entity.Null && ownerDefinition.m_Prefab == Entity.Null && m_PrefabPlaceholderElements.TryGetBuffer(m_ObjectPrefab, out var bufferData5) && !m_PrefabCreatureSpawnData.HasComponent(m_ObjectPrefab))
                 {
-                    Unity.Mathematics.Random random = m_RandomSeed.GetRandom(1000000);
+                    Unity.Mathematics.Random random = GetRandom(1000000);
                     int num2 = 0;
                     for (int j = 0; j < bufferData5.Length; j++)
                     {
@@ -342,6 +342,9 @@ namespace LineTool
             }
         }
 
+        // Gets a randomizer for the given index, derived from the (reproducible) random seed.
+        private Unity.Mathematics.Random GetRandom(int index) => Unity.Mathematics.Random.CreateFromIndex(m_RandomSeed + (uint)index);
+
         private bool GetVariationData(PlaceholderObjectElement placeholder, out VariationData variation)
         {
             variation = new VariationData
@@ -409,7 +412,7 @@ namespace LineTool
         private void UpdateObject(Entity objectPrefab, Entity owner, Entity original, Entity parent, Entity updatedTopLevel, Entity lotEntity, Transform transform, float elevation, OwnerDefinition ownerDefinition, NativeList<ClearAreaData> clearAreas, bool upgrade, bool relocate, bool rebuild, bool topLevel, bool optional, int parentMesh, int randomIndex)
         {
             OwnerDefinition ownerDefinition2 = ownerDefinition;
-            Unity.Mathematics.Random random = m_RandomSeed.GetRandom(randomIndex);
+            Unity.Mathematics.Random random = GetRandom(randomIndex);
             if (!m_PrefabAssetStampData.HasComponent(objectPrefab) || (ownerDefinition.m_Prefab == Entity.Null))
             {
                 Entity e = m_CommandBuffer.CreateEntity();
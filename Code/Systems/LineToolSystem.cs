@@ -8,6 +8,7 @@ namespace LineTool
 {
     using System;
     using System.Collections.Generic;
+    using System.Linq;
     using System.Reflection;
     using Colossal.Logging;
     using Colossal.Mathematics;
@@ -18,6 +19,7 @@ namespace LineTool
     using Game.Buildings;
     using Game.City;
     using Game.Common;
+    using Game.Input;
     using Game.Net;
     using Game.Objects;
     using Game.Prefabs;
@@ -38,6 +40,16 @@ namespace LineTool
     /// </summary>
     public sealed partial class LineToolSystem : ObjectToolBaseSystem
     {
+        // Setting limits.
+        private const int MaxRandomSeedHistory = 8;
+        private const float MaxElevationHeight = 4000f;
+        private const float MaxSlopePercent = 100f;
+        private const int MaxParallelRows = 20;
+        private const float MaxNetworkOffset = 100f;
+
+        // Maximum number of network nodes to search when following a network.
+        private const int MaxNetworkSearchNodes = 256;
+
         // Native buffers.
         private List<TooltipInfo> _tooltips;
         private List<PointData> _points;
@@ -57,11 +69,22 @@ namespace LineTool
         private Bounds1 _xBounds;
         private Bounds1 _zBounds;
 
+        // Prefab mix.
+        private readonly List<PrefabMixEntry> _prefabMix = new ();
+        private bool _prefabMixEnabled = false;
+        private PrefabMixOrder _prefabMixOrder = PrefabMixOrder.Random;
+        private Bounds1 _prefabMixXBounds;
+        private Bounds1 _prefabMixZBounds;
+        private string[] _prefabMixNames = new string[0];
+        private int[] _prefabMixWeights = new int[0];
+        private int _previewCost = 0;
+
         // Randomization.
+        private readonly System.Random _seedGenerator = new ();
+        private readonly List<int> _randomSeedHistory = new ();
+        private int[] _randomSeedHistoryArray = new int[0];
         private Random _random = new ();
-        private List<RandomSeed> _randomSeeds;
-        private float _previousSeedTime = 0f;
-        private int _fixedRandomSeed = 0;
+        private int _randomSeed = 1;
 
         // References.
         private ILog _log;
@@ -90,11 +113,50 @@ namespace LineTool
         private RotationMode _rotationMode = RotationMode.Relative;
         private ElevationMode _elevationMode = ElevationMode.FollowTerrain;
         private float _spacing = 20f;
+        private int _placementCount = 10;
         private int _rotation = 0;
         private float _randomSpacing = 0f;
         private float _randomOffset = 0f;
         private bool _dirty = false;
 
+        // Grid settings.
+        private float _gridRowSpacing = 20f;
+        private int _gridColumnCount = 5;
+        private int _gridRowCount = 5;
+        private bool _gridColumnCountLocked = false;
+        private bool _gridRowCountLocked = false;
+
+        // Parallel row settings.
+        private int _parallelRowCount = 1;
+        private float _parallelRowSpacing = 10f;
+        private bool _parallelRowsStaggered = false;
+
+        // Follow-network settings and current followed path.
+        private readonly List<Bezier4x3> _networkCurves = new ();
+        private readonly List<float> _networkHalfWidths = new ();
+        private NetworkSide _networkSide = NetworkSide.Both;
+        private float _networkOffset = 1f;
+
+        // Elevation settings.
+        private float _fixedElevationHeight = 0f;
+        private bool _fixedElevationAbsolute = false;
+        private float _slopeStartHeight = 0f;
+        private bool _slopeStartHeightFixed = false;
+        private float _slopeEndHeight = 0f;
+        private bool _slopeEndHeightFixed = false;
+        private float _slopePercent = 0f;
+        private bool _slopeFixed = false;
+
+        // Circle settings.
+        private int _circleArcAngle = 360;
+        private int _circleStartAngle = 0;
+        private bool _circleStartAngleFixed = false;
+
+        // Tree age settings (weights indexed by age mask bit: child, teen, adult, elderly, dead).
+        private AgeMask _ageMask;
+        private bool _ageMixEnabled = false;
+        private int[] _ageWeights = new int[] { 10, 30, 40, 20, 0 };
+
         // Interactions with other mods.
         private bool _topoToggleActive = false;
 
@@ -154,7 +216,8 @@ namespace LineTool
             set
             {
                 // Don't allow spacing to be set smaller than the smallest side of zBounds.
-                _spacing = (float)Math.Round(math.max(value, math.max(math.abs(_zBounds.max), math.abs(_zBounds.min) + 0.1f)), 1);
+                Bounds1 zBounds = PlacementZBounds;
+                _spacing = (float)Math.Round(math.max(value, math.max(math.abs(zBounds.max), math.abs(zBounds.min) + 0.1f)), 1);
                 _dirty = true;
             }
         }
@@ -169,11 +232,11 @@ namespace LineTool
                 // Check for fence or wall-to-wall modes, ensuring that they're valid options for this prefab.
                 if (FenceModeValid && _spacingMode == SpacingMode.FenceMode)
                 {
-                    return _zBounds.max - _zBounds.min;
+                    return PlacementZBounds.max - PlacementZBounds.min;
                 }
                 else if (W2WModeValid && _spacingMode == SpacingMode.W2WMode)
                 {
-                    return _xBounds.max - _xBounds.min;
+                    return PlacementXBounds.max - PlacementXBounds.min;
                 }
 
                 // If we got here we're not in fence or wall-to-wall mode; just return the spacing value.
@@ -182,14 +245,34 @@ namespace LineTool
         }
 
         /// <summary>
-        /// Gets a value indicating whether fence mode is valid for the selected prefab.
+        /// Gets or sets the number of items to place in count mode.
+        /// </summary>
+        internal int PlacementCount
+        {
+            get => _placementCount;
+
+            set
+            {
+                // Need at least two items to define spacing.
+                _placementCount = math.max(value, 2);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets the actual spacing used in the most recent point calculation (e.g. as derived from the placement count in count mode).
+        /// </summary>
+        internal float CalculatedSpacing => _mode.CalculatedSpacing;
+
+        /// <summary>
+        /// Gets a value indicating whether fence mode is valid for the selected prefab (or, if the prefab mix is active, for every prefab in the mix).
         /// </summary>
-        internal bool FenceModeValid => _selectedPrefab is not null && (_zBounds.min != 0 || _zBounds.max != 0);
+        internal bool FenceModeValid => _selectedPrefab is not null && (PrefabMixActive ? _prefabMix.TrueForAll(x => x.FenceModeValid) : (_zBounds.min != 0 || _zBounds.max != 0));
 
         /// <summary>
-        /// Gets a value indicating whether wall-to-wall mode is valid for the selected prefab.
+        /// Gets a value indicating whether wall-to-wall mode is valid for the selected prefab (or, if the prefab mix is active, for every prefab in the mix).
         /// </summary>
-        internal bool W2WModeValid => _selectedPrefab is not null && _xBounds.min != 0 && _xBounds.max != 0;
+        internal bool W2WModeValid => _selectedPrefab is not null && (PrefabMixActive ? _prefabMix.TrueForAll(x => x.W2WModeValid) : (_xBounds.min != 0 && _xBounds.max != 0));
 
         /// <summary>
         /// Gets or sets the current spacing mode.
@@ -198,8 +281,8 @@ namespace LineTool
         {
             get
             {
-                // Use normal spacing mode if fence or wall-to-wall is selected but that mode isn't currently a valid option.
-                if ((!FenceModeValid && _spacingMode == SpacingMode.FenceMode) || (!W2WModeValid && _spacingMode == SpacingMode.W2WMode))
+                // Use normal spacing mode if fence or wall-to-wall is selected but that mode isn't currently a valid option, or if count mode is selected in grid mode.
+                if ((!FenceModeValid && _spacingMode == SpacingMode.FenceMode) || (!W2WModeValid && _spacingMode == SpacingMode.W2WMode) || (_currentMode == LineMode.Grid && _spacingMode == SpacingMode.Count))
                 {
                     return SpacingMode.Manual;
                 }
@@ -269,6 +352,137 @@ namespace LineTool
             }
         }
 
+        /// <summary>
+        /// Gets or sets the fixed elevation mode height (an absolute height, or an offset above the terrain at the line start).
+        /// </summary>
+        internal float FixedElevationHeight
+        {
+            get => _fixedElevationHeight;
+
+            set
+            {
+                _fixedElevationHeight = math.clamp(value, -MaxElevationHeight, MaxElevationHeight);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the fixed elevation mode height is absolute (otherwise it's an offset above the terrain at the line start).
+        /// </summary>
+        internal bool FixedElevationAbsolute
+        {
+            get => _fixedElevationAbsolute;
+
+            set
+            {
+                _fixedElevationAbsolute = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the constant slope mode fixed starting height.
+        /// </summary>
+        internal float SlopeStartHeight
+        {
+            get => _slopeStartHeight;
+
+            set
+            {
+                _slopeStartHeight = math.clamp(value, -MaxElevationHeight, MaxElevationHeight);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the constant slope mode starting height is fixed (otherwise it's taken from the terrain).
+        /// </summary>
+        internal bool SlopeStartHeightFixed
+        {
+            get => _slopeStartHeightFixed;
+
+            set
+            {
+                _slopeStartHeightFixed = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the constant slope mode fixed ending height.
+        /// </summary>
+        internal float SlopeEndHeight
+        {
+            get => _slopeEndHeight;
+
+            set
+            {
+                _slopeEndHeight = math.clamp(value, -MaxElevationHeight, MaxElevationHeight);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the constant slope mode ending height is fixed (otherwise it's taken from the terrain).
+        /// Fixing the ending height unfixes the gradient.
+        /// </summary>
+        internal bool SlopeEndHeightFixed
+        {
+            get => _slopeEndHeightFixed;
+
+            set
+            {
+                _slopeEndHeightFixed = value;
+                _slopeFixed &= !value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the constant slope mode fixed gradient, in percent.
+        /// </summary>
+        internal float SlopePercent
+        {
+            get => _slopePercent;
+
+            set
+            {
+                _slopePercent = math.clamp(value, -MaxSlopePercent, MaxSlopePercent);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the constant slope mode gradient is fixed (otherwise it's calculated from the starting and ending heights).
+        /// Fixing the gradient unfixes the ending height.
+        /// </summary>
+        internal bool SlopeFixed
+        {
+            get => _slopeFixed;
+
+            set
+            {
+                _slopeFixed = value;
+                _slopeEndHeightFixed &= !value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets the line starting elevation of the current preview.
+        /// </summary>
+        internal float CalculatedStartElevation => HasPreview ? _mode.CalculatedStartElevation : 0f;
+
+        /// <summary>
+        /// Gets the line ending elevation of the current preview.
+        /// </summary>
+        internal float CalculatedEndElevation => HasPreview ? _mode.CalculatedEndElevation : 0f;
+
+        /// <summary>
+        /// Gets the line gradient of the current preview, in percent.
+        /// </summary>
+        internal float CalculatedSlope => HasPreview ? _mode.CalculatedSlope : 0f;
+
         /// <summary>
         /// Gets or sets the random spacing offset maximum.
         /// </summary>
@@ -330,6 +544,219 @@ namespace LineTool
             }
         }
 
+        /// <summary>
+        /// Gets or sets the spacing between grid rows.
+        /// </summary>
+        internal float GridRowSpacing
+        {
+            get => _gridRowSpacing;
+
+            set
+            {
+                _gridRowSpacing = (float)Math.Round(math.max(value, 0.1f), 1);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the fixed number of grid columns (items along each row).
+        /// </summary>
+        internal int GridColumnCount
+        {
+            get => _gridColumnCount;
+
+            set
+            {
+                _gridColumnCount = math.max(value, 1);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the fixed number of grid rows.
+        /// </summary>
+        internal int GridRowCount
+        {
+            get => _gridRowCount;
+
+            set
+            {
+                _gridRowCount = math.max(value, 1);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the number of grid columns is fixed.
+        /// </summary>
+        internal bool GridColumnCountLocked
+        {
+            get => _gridColumnCountLocked;
+
+            set
+            {
+                _gridColumnCountLocked = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the number of grid rows is fixed.
+        /// </summary>
+        internal bool GridRowCountLocked
+        {
+            get => _gridRowCountLocked;
+
+            set
+            {
+                _gridRowCountLocked = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the number of parallel rows (including the base line).
+        /// </summary>
+        internal int ParallelRowCount
+        {
+            get => _parallelRowCount;
+
+            set
+            {
+                _parallelRowCount = math.clamp(value, 1, MaxParallelRows);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the lateral distance between parallel rows.
+        /// </summary>
+        internal float ParallelRowSpacing
+        {
+            get => _parallelRowSpacing;
+
+            set
+            {
+                _parallelRowSpacing = (float)Math.Round(math.max(value, 0.1f), 1);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether alternate parallel rows are staggered by half of the item spacing.
+        /// </summary>
+        internal bool ParallelRowsStaggered
+        {
+            get => _parallelRowsStaggered;
+
+            set
+            {
+                _parallelRowsStaggered = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the network side(s) to place along in follow-network mode.
+        /// </summary>
+        internal NetworkSide NetworkSide
+        {
+            get => _networkSide;
+
+            set
+            {
+                _networkSide = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the lateral offset from the edge of the network in follow-network mode (negative values are inside the network edge).
+        /// </summary>
+        internal float NetworkOffset
+        {
+            get => _networkOffset;
+
+            set
+            {
+                _networkOffset = (float)Math.Round(math.clamp(value, -MaxNetworkOffset, MaxNetworkOffset), 1);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the circle arc sweep angle, in degrees (360 for a full circle).
+        /// </summary>
+        internal int CircleArcAngle
+        {
+            get => _circleArcAngle;
+
+            set
+            {
+                _circleArcAngle = math.clamp(value, 1, 360);
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the fixed circle start angle, as a compass bearing in degrees.
+        /// </summary>
+        internal int CircleStartAngle
+        {
+            get => _circleStartAngle;
+
+            set
+            {
+                // Wrap to 0-359.
+                _circleStartAngle = ((value % 360) + 360) % 360;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether circles start at the fixed start angle (instead of the cursor direction).
+        /// </summary>
+        internal bool CircleStartAngleFixed
+        {
+            get => _circleStartAngleFixed;
+
+            set
+            {
+                _circleStartAngleFixed = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets the number of objects in the current preview.
+        /// </summary>
+        internal int PreviewCount => HasPreview ? _points.Count : 0;
+
+        /// <summary>
+        /// Gets the line (or arc) length of the current preview.
+        /// </summary>
+        internal float PreviewLength => HasPreview ? _mode.CalculatedLength : 0f;
+
+        /// <summary>
+        /// Gets the total construction cost of the objects in the current preview.
+        /// </summary>
+        internal int PreviewCost => HasPreview ? _previewCost : 0;
+
+        /// <summary>
+        /// Gets the number of grid columns in the current preview (zero if not in grid mode).
+        /// </summary>
+        internal int CurrentGridColumns => _mode is GridLines gridLines ? gridLines.ColumnCount : 0;
+
+        /// <summary>
+        /// Gets the number of grid rows in the current preview (zero if not in grid mode).
+        /// </summary>
+        internal int CurrentGridRows => _mode is GridLines gridLines ? gridLines.RowCount : 0;
+
+        /// <summary>
+        /// Gets the actual spacing between grid rows in the current preview (zero if not in grid mode).
+        /// </summary>
+        internal float CalculatedGridRowSpacing => _mode is GridLines gridLines ? gridLines.CalculatedRowSpacing : 0f;
+
         /// <summary>
         /// Gets the tooltip list.
         /// </summary>
@@ -344,8 +771,8 @@ namespace LineTool
 
             set
             {
-                // Don't do anything if no change.
-                if (value == _currentMode)
+                // Don't do anything if no change (imported layouts can only be set by importing a layout).
+                if (value == _currentMode || value == LineMode.ImportedLayout)
                 {
                     return;
                 }
@@ -353,6 +780,13 @@ namespace LineTool
                 // Get current game guideline settings.
                 GuideLineSettingsData guideLineSettings = _renderingSettingsQuery.GetSingleton<GuideLineSettingsData>();
 
+                // Imported layouts aren't carried over to other modes.
+                if (_mode is ImportedLayout)
+                {
+                    _mode.Reset();
+                    _fixedPreview = false;
+                }
+
                 // Apply updated tool mode.
                 switch (value)
                 {
@@ -368,6 +802,12 @@ namespace LineTool
                     case LineMode.Grid:
                         _mode = new GridLines(_mode, guideLineSettings.m_HighPriorityColor, guideLineSettings.m_MediumPriorityColor, _objectToolSystem.distanceScale);
                         break;
+                    case LineMode.Polyline:
+                        _mode = new Polyline(_mode, guideLineSettings.m_HighPriorityColor, guideLineSettings.m_MediumPriorityColor, _objectToolSystem.distanceScale);
+                        break;
+                    case LineMode.FollowNetwork:
+                        _mode = new NetworkLine(_mode, guideLineSettings.m_HighPriorityColor, guideLineSettings.m_MediumPriorityColor, _objectToolSystem.distanceScale);
+                        break;
                 }
 
                 // Update mode.
@@ -383,13 +823,151 @@ namespace LineTool
         /// <summary>
         /// Gets or sets the active tree age mask.
         /// </summary>
-        internal AgeMask AgeMask { get; set; }
+        internal AgeMask AgeMask
+        {
+            get => _ageMask;
+
+            set
+            {
+                _ageMask = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether tree ages are chosen from the active age mask using a weighted random mix.
+        /// </summary>
+        internal bool AgeMixEnabled
+        {
+            get => _ageMixEnabled;
+
+            set
+            {
+                _ageMixEnabled = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets the weighted random age mix weights, indexed by age mask bit (child, teen, adult, elderly, dead).
+        /// </summary>
+        internal int[] AgeWeights => _ageWeights;
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the prefab mix is enabled.
+        /// </summary>
+        internal bool PrefabMixEnabled
+        {
+            get => _prefabMixEnabled;
+
+            set
+            {
+                _prefabMixEnabled = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets the prefab mix placement order.
+        /// </summary>
+        internal PrefabMixOrder PrefabMixOrder
+        {
+            get => _prefabMixOrder;
+
+            set
+            {
+                _prefabMixOrder = value;
+                _dirty = true;
+            }
+        }
+
+        /// <summary>
+        /// Gets the prefab mix entry prefab names, in list order.
+        /// </summary>
+        internal string[] PrefabMixNames => _prefabMixNames;
+
+        /// <summary>
+        /// Gets the prefab mix entry weights, in list order.
+        /// </summary>
+        internal int[] PrefabMixWeights => _prefabMixWeights;
+
+        /// <summary>
+        /// Gets a value indicating whether the currently selected prefab is in the prefab mix.
+        /// </summary>
+        internal bool SelectedPrefabInMix => _selectedPrefab is not null && _prefabMix.Exists(x => x.Prefab == _selectedPrefab);
 
         /// <summary>
         /// Gets or sets guideline transparency (inverse alpha) for guideline drawing.
         /// </summary>
         internal float GuidelineTransparency { get; set; }
 
+        /// <summary>
+        /// Gets the current random seed.
+        /// </summary>
+        internal int RandomSeedValue => _randomSeed;
+
+        /// <summary>
+        /// Gets the recently-used random seeds, most recent first.
+        /// </summary>
+        internal int[] RandomSeedHistory => _randomSeedHistoryArray;
+
+        /// <summary>
+        /// Gets a value indicating whether there's a current line preview (a selected prefab and a valid line start).
+        /// </summary>
+        private bool HasPreview => _selectedPrefab is not null && _currentMode != LineMode.Point && _mode.HasStart;
+
+        /// <summary>
+        /// Gets a value indicating whether the prefab mix is active (enabled, with at least one entry).
+        /// </summary>
+        private bool PrefabMixActive => _prefabMixEnabled && _prefabMix.Count > 0;
+
+        /// <summary>
+        /// Gets a value indicating whether the UI is currently taking input (a UI text field has focus, or the cursor is over the UI).
+        /// </summary>
+        private bool UIHasInput => InputManager.instance is InputManager inputManager && (inputManager.hasInputFieldFocus || inputManager.mouseOverUI);
+
+        /// <summary>
+        /// Gets the x-bounds to use for placement (the combined bounds of all prefabs in the mix if the prefab mix is active).
+        /// </summary>
+        private Bounds1 PlacementXBounds => PrefabMixActive ? _prefabMixXBounds : _xBounds;
+
+        /// <summary>
+        /// Gets the z-bounds to use for placement (the combined bounds of all prefabs in the mix if the prefab mix is active).
+        /// </summary>
+        private Bounds1 PlacementZBounds => PrefabMixActive ? _prefabMixZBounds : _zBounds;
+
+        /// <summary>
+        /// Gets the current elevation settings.
+        /// </summary>
+        private ElevationSettings CurrentElevationSettings => new ()
+        {
+            Mode = _elevationMode,
+            FixedHeight = _fixedElevationHeight,
+            FixedHeightAbsolute = _fixedElevationAbsolute,
+            StartHeight = _slopeStartHeight,
+            StartHeightFixed = _slopeStartHeightFixed,
+            EndHeight = _slopeEndHeight,
+            EndHeightFixed = _slopeEndHeightFixed,
+            SlopePercent = _slopePercent,
+            SlopeFixed = _slopeFixed,
+        };
+
+        /// <summary>
+        /// Gets the current parallel row settings.
+        /// </summary>
+        private ParallelRowSettings CurrentParallelRowSettings => new ()
+        {
+            Count = _parallelRowCount,
+            Spacing = _parallelRowSpacing,
+            Staggered = _parallelRowsStaggered,
+        };
+
+        /// <summary>
+        /// Gets a value indicating whether calculated item rotations are replaced with random rotations.
+        /// Imported layouts always keep their recorded rotations.
+        /// </summary>
+        private bool UseRandomRotation => CurrentRotationMode == RotationMode.Random && _currentMode != LineMode.ImportedLayout;
+
         /// <summary>
         /// Sets the currently selected prefab.
         /// </summary>
@@ -413,32 +991,9 @@ namespace LineTool
                 }
                 else
                 {
-                    // Get selected entity.
+                    // Get selected entity and bounds.
                     _selectedEntity = m_PrefabSystem.GetEntity(_selectedPrefab);
-
-                    // Check bounds.
-                    _zBounds.min = 0f;
-                    _zBounds.max = 0f;
-                    _xBounds.min = 0f;
-                    _xBounds.max = 0f;
-
-                    if (_selectedPrefab.m_Meshes is null || _selectedPrefab.m_Meshes.Length == 0)
-                    {
-                        _log.Debug($"Selected prefab {value.name} : {_selectedPrefab.GetType().FullName} has no meshes");
-                        return;
-                    }
-
-                    foreach (ObjectMeshInfo mesh in _selectedPrefab.m_Meshes)
-                    {
-                        if (mesh.m_Mesh is RenderPrefab renderPrefab)
-                        {
-                            // Update bounds if either of the relevant extents of this mesh exceed the previous extent.
-                            _xBounds.min = math.min(_xBounds.min, renderPrefab.bounds.x.min);
-                            _xBounds.max = math.max(_xBounds.max, renderPrefab.bounds.x.max);
-                            _zBounds.min = math.min(_zBounds.min, renderPrefab.bounds.z.min);
-                            _zBounds.max = math.max(_zBounds.max, renderPrefab.bounds.z.max);
-                        }
-                    }
+                    GetPrefabBounds(_selectedPrefab, out _xBounds, out _zBounds);
                 }
             }
         }
@@ -450,8 +1005,16 @@ namespace LineTool
         {
             base.InitializeRaycast();
 
-            // Set raycast mask.
-            m_ToolRaycastSystem.typeMask = TypeMask.Terrain;
+            // Set raycast mask; follow-network mode also raycasts against roads, paths and tracks.
+            if (_currentMode == LineMode.FollowNetwork)
+            {
+                m_ToolRaycastSystem.typeMask = TypeMask.Terrain | TypeMask.Net;
+                m_ToolRaycastSystem.netLayerMask = Layer.Road | Layer.PublicTransportRoad | Layer.Pathway | Layer.TrainTrack | Layer.TramTrack | Layer.SubwayTrack;
+            }
+            else
+            {
+                m_ToolRaycastSystem.typeMask = TypeMask.Terrain;
+            }
         }
 
         /// <summary>
@@ -506,6 +1069,12 @@ namespace LineTool
                 onMask |= Snap.ContourLines;
                 offMask |= Snap.ContourLines;
             }
+
+            // Follow-network mode always snaps to existing network geometry.
+            if (_currentMode == LineMode.FollowNetwork)
+            {
+                onMask |= Snap.ExistingGeometry;
+            }
         }
 
         /// <summary>
@@ -552,14 +1121,208 @@ namespace LineTool
         }
 
         /// <summary>
-        /// Updates the internal random seed.
+        /// Updates the random seed to a new randomly-generated value.
+        /// </summary>
+        internal void UpdateRandomSeed() => UpdateRandomSeed(_seedGenerator.Next(1, int.MaxValue));
+
+        /// <summary>
+        /// Updates the random seed to the given value, recording the previous seed in the seed history.
+        /// </summary>
+        /// <param name="seed">New random seed (values less than 1 are treated as 1).</param>
+        internal void UpdateRandomSeed(int seed)
+        {
+            seed = math.max(seed, 1);
+            if (seed == _randomSeed)
+            {
+                return;
+            }
+
+            // Record previous seed at the top of the history, removing any duplicates of it or the new seed.
+            _randomSeedHistory.Remove(_randomSeed);
+            _randomSeedHistory.Remove(seed);
+            _randomSeedHistory.Insert(0, _randomSeed);
+            if (_randomSeedHistory.Count > MaxRandomSeedHistory)
+            {
+                _randomSeedHistory.RemoveRange(MaxRandomSeedHistory, _randomSeedHistory.Count - MaxRandomSeedHistory);
+            }
+
+            _randomSeedHistoryArray = _randomSeedHistory.ToArray();
+            _randomSeed = seed;
+            _dirty = true;
+        }
+
+        /// <summary>
+        /// Creates a layout recording the current line, its settings and its calculated item points.
+        /// </summary>
+        /// <returns>New layout, or <c>null</c> if there's no current line to record.</returns>
+        internal LineLayout CreateLayout()
+        {
+            // Need a line with calculated points.
+            if (_selectedPrefab is null || _currentMode == LineMode.Point || !_mode.HasStart || _points.Count == 0)
+            {
+                return null;
+            }
+
+            LineLayout layout = new ()
+            {
+                PrefabName = _selectedPrefab.name,
+                PrefabType = _selectedPrefab.GetType().Name,
+                Mode = _currentMode.ToString(),
+                SpacingMode = CurrentSpacingMode.ToString(),
+                Spacing = _spacing,
+                RotationMode = CurrentRotationMode.ToString(),
+                Rotation = _rotation,
+                ElevationMode = CurrentElevationMode.ToString(),
+                Seed = _randomSeed,
+            };
+
+            // Record control points.
+            List<float3> controlPoints = new ();
+            _mode.GetControlPoints(controlPoints);
+            foreach (float3 controlPoint in controlPoints)
+            {
+                layout.ControlPoints.Add(LineLayout.ToArray(controlPoint));
+            }
+
+            // Record item points, with the rotations as actually placed.
+            foreach (PointData point in _points)
+            {
+                float4 rotation = (UseRandomRotation ? GetEffectiveRotation(point.Position) : point.Rotation).value;
+                layout.Points.Add(new LineLayout.LayoutPoint
+                {
+                    Position = LineLayout.ToArray(point.Position),
+                    Rotation = new float[] { rotation.x, rotation.y, rotation.z, rotation.w },
+                });
+            }
+
+            return layout;
+        }
+
+        /// <summary>
+        /// Applies an imported layout, restoring its prefab and settings and showing it as a fixed preview ready to be moved and placed.
+        /// </summary>
+        /// <param name="layout">Layout to apply (already validated).</param>
+        /// <param name="errorKey">Localization key of the error message if the layout couldn't be applied (<c>null</c> otherwise).</param>
+        /// <returns><c>true</c> if the layout was applied, <c>false</c> otherwise.</returns>
+        internal bool ApplyLayout(LineLayout layout, out string errorKey)
+        {
+            // Layouts are imported into the active line tool.
+            if (m_ToolSystem.activeTool != this || _currentMode == LineMode.Point)
+            {
+                errorKey = "LINETOOL.LayoutErrorInactive";
+                return false;
+            }
+
+            // Find the layout prefab.
+            if (!m_PrefabSystem.TryGetPrefab(new PrefabID(layout.PrefabType, layout.PrefabName), out PrefabBase prefab) || prefab is not ObjectGeometryPrefab || prefab is BuildingPrefab)
+            {
+                errorKey = "LINETOOL.LayoutErrorPrefab";
+                return false;
+            }
+
+            SelectedPrefab = prefab;
+
+            // Restore settings.
+            CurrentSpacingMode = (SpacingMode)Enum.Parse(typeof(SpacingMode), layout.SpacingMode);
+            Spacing = layout.Spacing;
+            CurrentRotationMode = (RotationMode)Enum.Parse(typeof(RotationMode), layout.RotationMode);
+            Rotation = layout.Rotation;
+            CurrentElevationMode = (ElevationMode)Enum.Parse(typeof(ElevationMode), layout.ElevationMode);
+            UpdateRandomSeed(layout.Seed);
+
+            // Set up the imported layout as a fixed preview at its recorded position.
+            List<float3> controlPoints = layout.ControlPoints.ConvertAll(LineLayout.ToFloat3);
+            List<PointData> points = layout.Points.ConvertAll(x => new PointData
+            {
+                Position = LineLayout.ToFloat3(x.Position),
+                Rotation = math.normalize(new quaternion(x.Rotation[0], x.Rotation[1], x.Rotation[2], x.Rotation[3])),
+            });
+
+            GuideLineSettingsData guideLineSettings = _renderingSettingsQuery.GetSingleton<GuideLineSettingsData>();
+            _mode = new ImportedLayout(_mode, guideLineSettings.m_HighPriorityColor, guideLineSettings.m_MediumPriorityColor, _objectToolSystem.distanceScale, controlPoints, points);
+            _currentMode = LineMode.ImportedLayout;
+            _dragMode = DragMode.None;
+            _fixedPreview = true;
+            _fixedPos = controlPoints[0];
+            _dirty = true;
+
+            errorKey = null;
+            return true;
+        }
+
+        /// <summary>
+        /// Adds the currently selected prefab to the prefab mix (if it isn't already there).
+        /// </summary>
+        internal void AddSelectedPrefabToMix()
+        {
+            if (_selectedPrefab is null || SelectedPrefabInMix)
+            {
+                return;
+            }
+
+            GetPrefabBounds(_selectedPrefab, out Bounds1 xBounds, out Bounds1 zBounds);
+            _prefabMix.Add(new PrefabMixEntry
+            {
+                Prefab = _selectedPrefab,
+                Entity = _selectedEntity,
+                XBounds = xBounds,
+                ZBounds = zBounds,
+            });
+
+            UpdatePrefabMix();
+        }
+
+        /// <summary>
+        /// Removes an entry from the prefab mix.
+        /// </summary>
+        /// <param name="index">Prefab mix entry index.</param>
+        internal void RemovePrefabMixEntry(int index)
+        {
+            // Bounds check.
+            if (index < 0 || index >= _prefabMix.Count)
+            {
+                return;
+            }
+
+            _prefabMix.RemoveAt(index);
+            UpdatePrefabMix();
+        }
+
+        /// <summary>
+        /// Sets the relative weight of a prefab mix entry.
+        /// </summary>
+        /// <param name="index">Prefab mix entry index.</param>
+        /// <param name="weight">Weight to set (0-100).</param>
+        internal void SetPrefabMixWeight(int index, int weight)
+        {
+            // Bounds check.
+            if (index < 0 || index >= _prefabMix.Count)
+            {
+                return;
+            }
+
+            _prefabMix[index].Weight = math.clamp(weight, 0, 100);
+            UpdatePrefabMix();
+        }
+
+        /// <summary>
+        /// Sets the weighted random age mix weight for a tree age.
         /// </summary>
-        internal void UpdateRandomSeed()
+        /// <param name="ageIndex">Age index (age mask bit; child, teen, adult, elderly, dead).</param>
+        /// <param name="weight">Weight to set (0-100).</param>
+        internal void SetAgeWeight(int ageIndex, int weight)
         {
-            ++_fixedRandomSeed;
+            // Bounds check.
+            if (ageIndex < 0 || ageIndex >= _ageWeights.Length)
+            {
+                return;
+            }
 
-            // Reset seed timer to force update.
-            _previousSeedTime = 0f;
+            // Replace array so UI bindings detect the change.
+            int[] newWeights = (int[])_ageWeights.Clone();
+            newWeights[ageIndex] = math.clamp(weight, 0, 100);
+            _ageWeights = newWeights;
+            _dirty = true;
         }
 
         /// <summary>
@@ -628,9 +1391,6 @@ namespace LineTool
             _tooltips = new (8);
             _points = new ();
 
-            // Create random seed list with one initial default starting randomizer.
-            _randomSeeds = new () { default };
-
             // Set straight line mode as initial mode, using current game settings.
             GuideLineSettingsData guideLineSettings = _renderingSettingsQuery.GetSingleton<GuideLineSettingsData>();
             _mode = new StraightLine(guideLineSettings.m_HighPriorityColor, guideLineSettings.m_MediumPriorityColor, _objectToolSystem.distanceScale);
@@ -696,6 +1456,14 @@ namespace LineTool
                 _terrainHeightData = _terrainSystem.GetHeightData();
                 position.y = TerrainUtils.SampleHeight(ref _terrainHeightData, position);
 
+                // Record any hovered network edge for follow-network mode (the end edge is fixed along with the position in fixed preview mode).
+                if (_mode is NetworkLine networkMode && !_fixedPreview)
+                {
+                    Entity hitEntity = _raycastPoint.m_OriginalEntity;
+                    bool isEdge = hitEntity != Entity.Null && EntityManager.HasComponent<Edge>(hitEntity) && EntityManager.HasComponent<Curve>(hitEntity);
+                    networkMode.SetHoveredEdge(isEdge ? hitEntity : Entity.Null, _raycastPoint.m_CurvePosition);
+                }
+
                 // Handle any dragging.
                 if (_dragMode != DragMode.None)
                 {
@@ -741,6 +1509,23 @@ namespace LineTool
 
                     return inputDeps;
                 }
+                else if (_mode is Polyline polyline && !UIHasInput && (Keyboard.current.enterKey.wasPressedThisFrame || Keyboard.current.numpadEnterKey.wasPressedThisFrame || Keyboard.current.backspaceKey.wasPressedThisFrame))
+                {
+                    // Polyline keyboard actions - backspace removes the most recent vertex, enter completes the line.
+                    // These are ignored while the UI is using the keyboard (e.g. editing a text field) or the cursor is over the UI.
+                    if (Keyboard.current.backspaceKey.wasPressedThisFrame)
+                    {
+                        polyline.RemoveLastVertex();
+                        _dragMode = DragMode.None;
+                        _fixedPreview = false;
+                        _dirty = true;
+                    }
+                    else if (polyline.HasAllPoints)
+                    {
+                        PlaceItems();
+                        return inputDeps;
+                    }
+                }
                 else
                 {
                     // Check for apply action initiation.
@@ -796,27 +1581,7 @@ namespace LineTool
 
                             // Placing items.
                             case ClickMode.Placed:
-                                applyMode = ApplyMode.Apply;
-
-                                // Play relevant sound effect for placement (if any).
-                                if (_selectedPrefab is BuildingPrefab)
-                                {
-                                    _audioManager.PlayUISound(_soundEffectsQuery.GetSingleton<ToolUXSoundSettingsData>().m_PlaceBuildingSound);
-                                }
-                                else if (_selectedPrefab is StaticObjectPrefab || m_ToolSystem.actionMode.IsEditor())
-                                {
-                                    _audioManager.PlayUISound(_soundEffectsQuery.GetSingleton<ToolUXSoundSettingsData>().m_PlacePropSound);
-                                }
-
-                                // Perform post-placement.
-                                _mode.ItemsPlaced();
-
-                                // Reset tool mode if we're not building continuously.
-                                if (!(Keyboard.current.shiftKey.isPressed || _keepBuildingAction.WasPressedThisFrame()))
-                                {
-                                    _mode.Reset();
-                                }
-
+                                PlaceItems();
                                 return inputDeps;
 
                             // Midpoint click.
@@ -835,10 +1600,11 @@ namespace LineTool
                     {
                         // Create cursor entity.
                         CreateDefinitions(
-                            _selectedEntity,
+                            GetPlacementPrefab(0),
                             position,
                             GetEffectiveRotation(position),
-                            GetRandomSeed(0));
+                            GetRandomSeed(0),
+                            GetEffectiveAgeMask(0));
 
                         // Update previous position.
                         _previousPos = position;
@@ -882,15 +1648,34 @@ namespace LineTool
 
             // If we got here we're (re)calculating points.
             _points.Clear();
-            _mode.CalculatePoints(position, CurrentSpacingMode, CurrentRotationMode, CurrentElevationMode, EffectiveSpacing, RandomSpacing, RandomOffset, _rotation, _zBounds, _points, ref _terrainHeightData);
+            if (_mode is GridLines gridLines)
+            {
+                // Grid mode has separate row settings.
+                int columnCount = _gridColumnCountLocked ? _gridColumnCount : 0;
+                int rowCount = _gridRowCountLocked ? _gridRowCount : 0;
+                gridLines.CalculatePoints(position, CurrentSpacingMode, CurrentRotationMode, CurrentElevationSettings, EffectiveSpacing, _gridRowSpacing, columnCount, rowCount, RandomSpacing, RandomOffset, _randomSeed, _rotation, PlacementZBounds, _points, ref _terrainHeightData);
+            }
+            else if (_mode is Circle circle)
+            {
+                // Circle mode has arc settings.
+                circle.CalculatePoints(position, CurrentSpacingMode, CurrentRotationMode, CurrentElevationSettings, CurrentParallelRowSettings, EffectiveSpacing, _placementCount, _circleArcAngle, _circleStartAngleFixed, _circleStartAngle, RandomSpacing, RandomOffset, _randomSeed, _rotation, PlacementZBounds, _points, ref _terrainHeightData);
+            }
+            else if (_mode is NetworkLine networkLine)
+            {
+                // Follow-network mode follows the network path from the starting position to the hovered position.
+                UpdateNetworkPath(networkLine);
+                networkLine.CalculatePoints(position, CurrentSpacingMode, CurrentRotationMode, CurrentElevationSettings, EffectiveSpacing, _placementCount, _networkSide, _networkOffset, RandomSpacing, RandomOffset, _randomSeed, _rotation, PlacementZBounds, _points, ref _terrainHeightData);
+            }
+            else
+            {
+                _mode.CalculatePoints(position, CurrentSpacingMode, CurrentRotationMode, CurrentElevationSettings, CurrentParallelRowSettings, EffectiveSpacing, _placementCount, RandomSpacing, RandomOffset, _randomSeed, _rotation, PlacementZBounds, _points, ref _terrainHeightData);
+            }
 
             // Initialize randomization for this run.
-            RandomSeed randomSeed = GetRandomSeed(0);
+            uint randomSeed = GetRandomSeed(0);
             int seedIndex = 0;
-            while (_randomSeeds.Count < _points.Count)
-            {
-                _randomSeeds.Add(RandomSeed.Next());
-            }
+            int pointIndex = 0;
+            _previewCost = 0;
 
             // Step along length and place preview objects.
             foreach (PointData thisPoint in _points)
@@ -901,15 +1686,18 @@ namespace LineTool
                 Transform transformData = new ()
                 {
                     m_Position = thisPoint.Position,
-                    m_Rotation = CurrentRotationMode == RotationMode.Random ? GetEffectiveRotation(thisPoint.Position) : thisPoint.Rotation,
+                    m_Rotation = UseRandomRotation ? GetEffectiveRotation(thisPoint.Position) : thisPoint.Rotation,
                 };
 
                 // Create entity.
+                Entity prefab = GetPlacementPrefab(pointIndex);
+                _previewCost += GetConstructionCost(prefab);
                 CreateDefinitions(
-                    _selectedEntity,
+                    prefab,
                     thisPoint.Position,
-                    CurrentRotationMode == RotationMode.Random ? GetEffectiveRotation(thisPoint.Position) : thisPoint.Rotation,
-                    CurrentSpacingMode == SpacingMode.FenceMode ? randomSeed : RandomizationEnabled ? GetRandomSeed(seedIndex++) : GetRandomSeed(0));
+                    UseRandomRotation ? GetEffectiveRotation(thisPoint.Position) : thisPoint.Rotation,
+                    CurrentSpacingMode == SpacingMode.FenceMode ? randomSeed : RandomizationEnabled ? GetRandomSeed(seedIndex++) : GetRandomSeed(0),
+                    GetEffectiveAgeMask(pointIndex++));
             }
 
             return inputDeps;
@@ -965,6 +1753,39 @@ namespace LineTool
             base.OnStopRunning();
         }
 
+        /// <summary>
+        /// Places the items of the current line and sets up the line mode for the next placement.
+        /// </summary>
+        private void PlaceItems()
+        {
+            applyMode = ApplyMode.Apply;
+
+            // Play relevant sound effect for placement (if any).
+            if (_selectedPrefab is BuildingPrefab)
+            {
+                _audioManager.PlayUISound(_soundEffectsQuery.GetSingleton<ToolUXSoundSettingsData>().m_PlaceBuildingSound);
+            }
+            else if (_selectedPrefab is StaticObjectPrefab || m_ToolSystem.actionMode.IsEditor())
+            {
+                _audioManager.PlayUISound(_soundEffectsQuery.GetSingleton<ToolUXSoundSettingsData>().m_PlacePropSound);
+            }
+
+            // Advance the random seed for the next line; the seed just used is recorded in the history so that it can be restored.
+            if (RandomizationEnabled)
+            {
+                UpdateRandomSeed();
+            }
+
+            // Perform post-placement.
+            _mode.ItemsPlaced();
+
+            // Reset tool mode if we're not building continuously.
+            if (!(Keyboard.current.shiftKey.isPressed || _keepBuildingAction.WasPressedThisFrame()))
+            {
+                _mode.Reset();
+            }
+        }
+
         /// <summary>
         /// Gets the effective object rotation depending on current settings.
         /// </summary>
@@ -987,32 +1808,318 @@ namespace LineTool
         }
 
         /// <summary>
-        /// Gets a current random seed in a sequence with seed updates limited to one every two seconds.
+        /// Gets the random seed for the given object index, derived from the current random seed.
+        /// The same seed and index always return the same value, so layouts can be reproduced by restoring the seed.
         /// </summary>
         /// <param name="seedIndex">Index of seed to use.</param>
-        /// <returns>Current random seed for the given index.</returns>
-        private RandomSeed GetRandomSeed(int seedIndex)
+        /// <returns>Random seed for the given index.</returns>
+        private uint GetRandomSeed(int seedIndex) => math.hash(new int2(_randomSeed, seedIndex));
+
+        /// <summary>
+        /// Gets the tree age mask to use for the given object index.
+        /// If the weighted random age mix is enabled, this is a single age from the active age mask, chosen using the age weights.
+        /// </summary>
+        /// <param name="pointIndex">Object index.</param>
+        /// <returns>Tree age mask for the given object index.</returns>
+        private AgeMask GetEffectiveAgeMask(int pointIndex)
         {
-            int listMax = _randomSeeds.Count - 1;
-            if (RandomizationEnabled)
+            if (!_ageMixEnabled)
+            {
+                return _ageMask;
+            }
+
+            // Total weights of selected ages.
+            int totalWeight = 0;
+            for (int i = 0; i < _ageWeights.Length; ++i)
+            {
+                if (((int)_ageMask & (1 << i)) != 0)
+                {
+                    totalWeight += _ageWeights[i];
+                }
+            }
+
+            // If no selected ages have any weight, just use the full mask.
+            if (totalWeight <= 0)
+            {
+                return _ageMask;
+            }
+
+            // Choose an age; the seed is offset so the age choice is independent of the variation seed for the same index.
+            Random random = Random.CreateFromIndex(GetRandomSeed(pointIndex) ^ 0x5A5A5A5Au);
+            int choice = random.NextInt(totalWeight);
+            for (int i = 0; i < _ageWeights.Length; ++i)
+            {
+                if (((int)_ageMask & (1 << i)) != 0)
+                {
+                    choice -= _ageWeights[i];
+                    if (choice < 0)
+                    {
+                        return (AgeMask)(1 << i);
+                    }
+                }
+            }
+
+            return _ageMask;
+        }
+
+        /// <summary>
+        /// Gets the prefab entity to place for the given object index.
+        /// If the prefab mix is active, this is chosen from the mix according to the entry weights and placement order.
+        /// </summary>
+        /// <param name="pointIndex">Object index.</param>
+        /// <returns>Prefab entity to place.</returns>
+        private Entity GetPlacementPrefab(int pointIndex)
+        {
+            if (!PrefabMixActive)
+            {
+                return _selectedEntity;
+            }
+
+            // Total weights of all entries; if there aren't any, just cycle through the entries in turn.
+            int totalWeight = 0;
+            foreach (PrefabMixEntry entry in _prefabMix)
+            {
+                totalWeight += entry.Weight;
+            }
+
+            if (totalWeight <= 0)
+            {
+                return _prefabMix[pointIndex % _prefabMix.Count].Entity;
+            }
+
+            // Alternating order steps through the entries in order, repeating each according to its weight.
+            // Random order is a weighted random choice; the seed is offset so the prefab choice is independent of the variation seed for the same index.
+            int choice = _prefabMixOrder == PrefabMixOrder.Alternating
+                ? pointIndex % totalWeight
+                : Random.CreateFromIndex(GetRandomSeed(pointIndex) ^ 0xA5A5A5A5u).NextInt(totalWeight);
+            foreach (PrefabMixEntry entry in _prefabMix)
+            {
+                choice -= entry.Weight;
+                if (choice < 0)
+                {
+                    return entry.Entity;
+                }
+            }
+
+            return _selectedEntity;
+        }
+
+        /// <summary>
+        /// Gets the combined mesh bounds of the given prefab.
+        /// </summary>
+        /// <param name="prefab">Prefab.</param>
+        /// <param name="xBounds">Prefab x-bounds (zero if the prefab has no meshes).</param>
+        /// <param name="zBounds">Prefab z-bounds (zero if the prefab has no meshes).</param>
+        private void GetPrefabBounds(ObjectGeometryPrefab prefab, out Bounds1 xBounds, out Bounds1 zBounds)
+        {
+            xBounds = default;
+            zBounds = default;
+
+            if (prefab.m_Meshes is null || prefab.m_Meshes.Length == 0)
+            {
+                _log.Debug($"Selected prefab {prefab.name} : {prefab.GetType().FullName} has no meshes");
+                return;
+            }
+
+            foreach (ObjectMeshInfo mesh in prefab.m_Meshes)
+            {
+                if (mesh.m_Mesh is RenderPrefab renderPrefab)
+                {
+                    // Update bounds if either of the relevant extents of this mesh exceed the previous extent.
+                    xBounds.min = math.min(xBounds.min, renderPrefab.bounds.x.min);
+                    xBounds.max = math.max(xBounds.max, renderPrefab.bounds.x.max);
+                    zBounds.min = math.min(zBounds.min, renderPrefab.bounds.z.min);
+                    zBounds.max = math.max(zBounds.max, renderPrefab.bounds.z.max);
+                }
+            }
+        }
+
+        /// <summary>
+        /// Updates the prefab mix combined bounds and UI arrays after a change to the mix.
+        /// </summary>
+        private void UpdatePrefabMix()
+        {
+            _prefabMixXBounds = default;
+            _prefabMixZBounds = default;
+            foreach (PrefabMixEntry entry in _prefabMix)
             {
-                // Update the stored random seeds if at least two seconds have passed since the last update.
-                float currentTime = UnityEngine.Time.time;
-                if (currentTime - _previousSeedTime > 2f)
+                _prefabMixXBounds = new Bounds1(math.min(_prefabMixXBounds.min, entry.XBounds.min), math.max(_prefabMixXBounds.max, entry.XBounds.max));
+                _prefabMixZBounds = new Bounds1(math.min(_prefabMixZBounds.min, entry.ZBounds.min), math.max(_prefabMixZBounds.max, entry.ZBounds.max));
+            }
+
+            // Replace arrays so UI bindings detect the change.
+            _prefabMixNames = _prefabMix.Select(x => x.Prefab.name).ToArray();
+            _prefabMixWeights = _prefabMix.Select(x => x.Weight).ToArray();
+            _dirty = true;
+        }
+
+        /// <summary>
+        /// Gets the construction cost of the given prefab.
+        /// </summary>
+        /// <param name="prefab">Prefab entity.</param>
+        /// <returns>Prefab construction cost (zero if none).</returns>
+        private int GetConstructionCost(Entity prefab) => EntityManager.HasComponent<PlaceableObjectData>(prefab) ? (int)EntityManager.GetComponentData<PlaceableObjectData>(prefab).m_ConstructionCost : 0;
+
+        /// <summary>
+        /// Updates the network path followed by the given follow-network mode, from its starting position to the currently hovered network position.
+        /// Where these are on different edges, the path follows the shortest connected route across the network between them.
+        /// </summary>
+        /// <param name="networkLine">Follow-network mode instance.</param>
+        private void UpdateNetworkPath(NetworkLine networkLine)
+        {
+            _networkCurves.Clear();
+            _networkHalfWidths.Clear();
+
+            Entity startEdge = networkLine.StartEdge;
+            Entity endEdge = networkLine.HoveredEdge;
+            float startPosition = networkLine.StartCurvePosition;
+            float endPosition = networkLine.HoveredCurvePosition;
+            if (IsNetworkEdge(startEdge) && IsNetworkEdge(endEdge))
+            {
+                if (startEdge == endEdge)
+                {
+                    // Same edge - just follow the part of the edge between the two positions.
+                    AddNetworkCurve(startEdge, startPosition, endPosition);
+                }
+                else
                 {
-                    // Update seeds.
-                    for (int i = 0; i <= listMax; ++i)
+                    // Shortest route search, starting from either end of the starting edge.
+                    // Each reached node records its distance along the route and the edge and node it was reached from.
+                    Dictionary<Entity, (float Distance, Entity Edge, Entity PreviousNode)> reachedNodes = new ();
+                    List<Entity> openNodes = new ();
+                    Edge start = EntityManager.GetComponentData<Edge>(startEdge);
+                    Edge end = EntityManager.GetComponentData<Edge>(endEdge);
+                    float startLength = EntityManager.GetComponentData<Curve>(startEdge).m_Length;
+                    float endLength = EntityManager.GetComponentData<Curve>(endEdge).m_Length;
+                    reachedNodes[start.m_Start] = (startLength * startPosition, startEdge, Entity.Null);
+                    reachedNodes[start.m_End] = (startLength * (1f - startPosition), startEdge, Entity.Null);
+                    openNodes.Add(start.m_Start);
+                    openNodes.Add(start.m_End);
+
+                    Entity routeEndNode = Entity.Null;
+                    float routeLength = float.MaxValue;
+                    for (int searched = 0; openNodes.Count > 0 && searched < MaxNetworkSearchNodes; ++searched)
+                    {
+                        // Take the closest open node.
+                        int closestIndex = 0;
+                        for (int i = 1; i < openNodes.Count; ++i)
+                        {
+                            if (reachedNodes[openNodes[i]].Distance < reachedNodes[openNodes[closestIndex]].Distance)
+                            {
+                                closestIndex = i;
+                            }
+                        }
+
+                        Entity node = openNodes[closestIndex];
+                        openNodes.RemoveAt(closestIndex);
+                        float nodeDistance = reachedNodes[node].Distance;
+
+                        // Stop if no shorter route is possible.
+                        if (nodeDistance >= routeLength)
+                        {
+                            break;
+                        }
+
+                        // Check for a route completed by the ending edge.
+                        if (node == end.m_Start || node == end.m_End)
+                        {
+                            float totalDistance = nodeDistance + (endLength * (node == end.m_Start ? endPosition : 1f - endPosition));
+                            if (totalDistance < routeLength)
+                            {
+                                routeLength = totalDistance;
+                                routeEndNode = node;
+                            }
+                        }
+
+                        // Continue along each connected edge.
+                        if (!EntityManager.HasBuffer<ConnectedEdge>(node))
+                        {
+                            continue;
+                        }
+
+                        foreach (ConnectedEdge connectedEdge in EntityManager.GetBuffer<ConnectedEdge>(node, true))
+                        {
+                            Entity edge = connectedEdge.m_Edge;
+                            if (edge == startEdge || edge == endEdge || !IsNetworkEdge(edge))
+                            {
+                                continue;
+                            }
+
+                            Edge edgeData = EntityManager.GetComponentData<Edge>(edge);
+                            Entity nextNode = edgeData.m_Start == node ? edgeData.m_End : edgeData.m_Start;
+                            float nextDistance = nodeDistance + EntityManager.GetComponentData<Curve>(edge).m_Length;
+                            if (!reachedNodes.TryGetValue(nextNode, out var reached) || nextDistance < reached.Distance)
+                            {
+                                reachedNodes[nextNode] = (nextDistance, edge, node);
+                                if (!openNodes.Contains(nextNode))
+                                {
+                                    openNodes.Add(nextNode);
+                                }
+                            }
+                        }
+                    }
+
+                    // Build the route curves (if a route was found), tracing the route nodes back from the end.
+                    if (routeEndNode != Entity.Null)
                     {
-                        _randomSeeds[i] = RandomSeed.Next();
+                        List<Entity> routeNodes = new ();
+                        for (Entity node = routeEndNode; node != Entity.Null; node = reachedNodes[node].PreviousNode)
+                        {
+                            routeNodes.Add(node);
+                        }
+
+                        routeNodes.Reverse();
+
+                        // Starting edge, from the starting position to the first route node.
+                        AddNetworkCurve(startEdge, startPosition, routeNodes[0] == start.m_Start ? 0f : 1f);
+
+                        // Each intermediate edge in full, in the direction of travel.
+                        for (int i = 1; i < routeNodes.Count; ++i)
+                        {
+                            Entity edge = reachedNodes[routeNodes[i]].Edge;
+                            bool forwards = EntityManager.GetComponentData<Edge>(edge).m_Start == routeNodes[i - 1];
+                            AddNetworkCurve(edge, forwards ? 0f : 1f, forwards ? 1f : 0f);
+                        }
+
+                        // Ending edge, from the last route node to the ending position.
+                        AddNetworkCurve(endEdge, routeEndNode == end.m_Start ? 0f : 1f, endPosition);
                     }
+                }
+            }
+
+            networkLine.SetPath(_networkCurves, _networkHalfWidths);
+        }
+
+        /// <summary>
+        /// Checks whether the given entity is a network edge that can be followed.
+        /// </summary>
+        /// <param name="entity">Entity to check.</param>
+        /// <returns><c>true</c> if the entity is a valid network edge, <c>false</c> otherwise.</returns>
+        private bool IsNetworkEdge(Entity entity) => entity != Entity.Null && EntityManager.Exists(entity) && EntityManager.HasComponent<Edge>(entity) && EntityManager.HasComponent<Curve>(entity) && !EntityManager.HasComponent<Deleted>(entity);
+
+        /// <summary>
+        /// Adds part of a network edge to the current followed network path.
+        /// </summary>
+        /// <param name="edge">Network edge entity.</param>
+        /// <param name="fromPosition">Curve position to follow the edge from.</param>
+        /// <param name="toPosition">Curve position to follow the edge to (may be less than the starting position, to follow the edge backwards).</param>
+        private void AddNetworkCurve(Entity edge, float fromPosition, float toPosition)
+        {
+            Bezier4x3 bezier = EntityManager.GetComponentData<Curve>(edge).m_Bezier;
+            _networkCurves.Add(fromPosition <= toPosition ? MathUtils.Cut(bezier, new float2(fromPosition, toPosition)) : MathUtils.Invert(MathUtils.Cut(bezier, new float2(toPosition, fromPosition))));
 
-                    // Store new 'last updated' time.
-                    _previousSeedTime = currentTime;
+            // Record network half-width from the edge composition.
+            float halfWidth = 0f;
+            if (EntityManager.HasComponent<Composition>(edge))
+            {
+                Entity composition = EntityManager.GetComponentData<Composition>(edge).m_Edge;
+                if (EntityManager.HasComponent<NetCompositionData>(composition))
+                {
+                    halfWidth = EntityManager.GetComponentData<NetCompositionData>(composition).m_Width * 0.5f;
                 }
             }
 
-            // Bounds check index before returning the seed index.
-            return _randomSeeds[math.clamp(seedIndex, 0, listMax)];
+            _networkHalfWidths.Add(halfWidth);
         }
 
         /// <summary>
@@ -1022,17 +2129,18 @@ namespace LineTool
         /// <param name="position">Entity position.</param>
         /// <param name="rotation">Entity rotation.</param>
         /// <param name="randomSeed">Random seed to use.</param>
-        private void CreateDefinitions(Entity objectPrefab, float3 position, quaternion rotation, RandomSeed randomSeed)
+        /// <param name="ageMask">Tree age mask to use.</param>
+        private void CreateDefinitions(Entity objectPrefab, float3 position, quaternion rotation, uint randomSeed, AgeMask ageMask)
         {
             CreateDefinitions definitions = default;
             definitions.m_RandomizationEnabled = RandomizationEnabled;
-            definitions.m_FixedRandomSeed = RandomizationEnabled ? 0 : _fixedRandomSeed;
+            definitions.m_FixedRandomSeed = RandomizationEnabled ? 0 : _randomSeed;
             definitions.m_EditorMode = m_ToolSystem.actionMode.IsEditor();
             definitions.m_LefthandTraffic = _cityConfigurationSystem.leftHandTraffic;
             definitions.m_ObjectPrefab = objectPrefab;
             definitions.m_Theme = _cityConfigurationSystem.defaultTheme;
             definitions.m_RandomSeed = randomSeed;
-            definitions.m_AgeMask = AgeMask;
+            definitions.m_AgeMask = ageMask;
             definitions.m_ControlPoint = new () { m_Position = position, m_Rotation = rotation };
             definitions.m_AttachmentPrefab = default;
             definitions.m_OwnerData = SystemAPI.GetComponentLookup<Owner>(true);
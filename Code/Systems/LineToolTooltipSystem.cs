@@ -50,7 +50,7 @@ namespace LineTool
                         path = $"guideLineTooltip{i}",
                         horizontalAlignment = TooltipGroup.Alignment.Center,
                         verticalAlignment = TooltipGroup.Alignment.Center,
-                        children = { (IWidget)new IntTooltip() },
+                        children = { (IWidget)new StringTooltip() },
                     });
                 }
 
@@ -63,19 +63,17 @@ namespace LineTool
                     tooltipGroup.SetChildrenChanged();
                 }
 
-                // Set tooltip content.
-                IntTooltip intTooltip = tooltipGroup.children[0] as IntTooltip;
+                // Set tooltip content, formatted for the game's unit system and locale.
+                StringTooltip stringTooltip = tooltipGroup.children[0] as StringTooltip;
                 switch (tooltipInfo.m_Type)
                 {
                     case TooltipType.Angle:
-                        intTooltip.icon = "Media/Glyphs/Angle.svg";
-                        intTooltip.value = (int)tooltipInfo.m_Value;
-                        intTooltip.unit = "angle";
+                        stringTooltip.icon = "Media/Glyphs/Angle.svg";
+                        stringTooltip.value = UnitFormatting.FormatAngle(tooltipInfo.m_Value);
                         break;
                     case TooltipType.Length:
-                        intTooltip.icon = "Media/Glyphs/Length.svg";
-                        intTooltip.value = (int)tooltipInfo.m_Value;
-                        intTooltip.unit = "length";
+                        stringTooltip.icon = "Media/Glyphs/Length.svg";
+                        stringTooltip.value = UnitFormatting.FormatLength(tooltipInfo.m_Value);
                         break;
                 }
 
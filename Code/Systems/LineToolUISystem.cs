@@ -7,9 +7,14 @@
 namespace LineTool
 {
     using System;
+    using System.Collections.Generic;
+    using System.Linq;
+    using System.Text;
     using Colossal.Logging;
     using Colossal.UI.Binding;
+    using Game.Input;
     using Game.Prefabs;
+    using Game.Settings;
     using Game.Tools;
     using Game.UI;
     using Game.UI.InGame;
@@ -30,6 +35,21 @@ namespace LineTool
         // ToolbarUISystem reflection.
         private ValueBinding<int> _ageMaskBinding;
 
+        // Presets.
+        private PresetFile _presetFile;
+        private string[] _presetNames;
+
+        // Layout import/export status (localization key of the most recent message, if any).
+        private string _layoutMessage = string.Empty;
+        private bool _layoutMessageIsError = false;
+
+        // Hotkeys (in ModSettings.HotkeyActionNames order), with current binding display text.
+        private readonly List<(ProxyAction Action, Action Callback, bool LineToolOnly)> _hotkeys = new ();
+        private string[] _hotkeyTexts = new string[0];
+
+        // Collapsed tool options section names.
+        private string[] _collapsedSections;
+
         // Internal status.
         private bool _toolIsActive = false;
         private ToolBaseSystem _previousSystem = null;
@@ -64,11 +84,15 @@ namespace LineTool
             AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "SimpleCurveEnabled", () => _toolSystem.activeTool == _lineToolSystem && _lineToolSystem.Mode == LineMode.SimpleCurve));
             AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "CircleEnabled", () => _toolSystem.activeTool == _lineToolSystem && _lineToolSystem.Mode == LineMode.Circle));
             AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "GridEnabled", () => _toolSystem.activeTool == _lineToolSystem && _lineToolSystem.Mode == LineMode.Grid));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "PolylineEnabled", () => _toolSystem.activeTool == _lineToolSystem && _lineToolSystem.Mode == LineMode.Polyline));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "FollowNetworkEnabled", () => _toolSystem.activeTool == _lineToolSystem && _lineToolSystem.Mode == LineMode.FollowNetwork));
             AddBinding(new TriggerBinding("LineTool", "SetPointMode", SetPointMode));
             AddBinding(new TriggerBinding("LineTool", "SetStraightLineMode", SetStraightMode));
             AddBinding(new TriggerBinding("LineTool", "SetSimpleCurveMode", SetSimpleCurveMode));
             AddBinding(new TriggerBinding("LineTool", "SetCircleMode", SetCircleMode));
             AddBinding(new TriggerBinding("LineTool", "SetGridMode", SetGridMode));
+            AddBinding(new TriggerBinding("LineTool", "SetPolylineMode", SetPolylineMode));
+            AddBinding(new TriggerBinding("LineTool", "SetFollowNetworkMode", SetFollowNetworkMode));
 
             // Options UI bindings.
             AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "FenceModeAvailable", () => _lineToolSystem.FenceModeValid));
@@ -79,16 +103,91 @@ namespace LineTool
             AddBinding(new TriggerBinding("LineTool", "ToggleFenceMode", ToggleFenceMode));
             AddBinding(new TriggerBinding("LineTool", "ToggleW2WMode", ToggleW2WMode));
             AddBinding(new TriggerBinding("LineTool", "UpdateRandomSeed", UpdateRandomSeed));
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "RandomSeed", () => _lineToolSystem.RandomSeedValue));
+            AddUpdateBinding(new GetterValueBinding<int[]>("LineTool", "RandomSeedHistory", () => _lineToolSystem.RandomSeedHistory, new ArrayWriter<int>()));
+            AddBinding(new TriggerBinding<int>("LineTool", "SetRandomSeed", SetRandomSeed));
+            AddBinding(new TriggerBinding("LineTool", "CopyRandomSeed", CopyRandomSeed));
             AddBinding(new TriggerBinding("LineTool", "ToggleRandomization", ToggleRandomization));
 
             // Spacing UI bindings
             AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "LengthSnapEnabled", () => _lineToolSystem.LengthSnapEnabled));
             AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "FullLengthEnabled", () => _lineToolSystem.CurrentSpacingMode == SpacingMode.FullLength));
             AddUpdateBinding(new GetterValueBinding<float>("LineTool", "Spacing", () => _lineToolSystem.Spacing));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "CountModeEnabled", () => _lineToolSystem.CurrentSpacingMode == SpacingMode.Count));
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "PlacementCount", () => _lineToolSystem.PlacementCount));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "CalculatedSpacing", () => _lineToolSystem.CalculatedSpacing));
             AddBinding(new TriggerBinding("LineTool", "ToggleLengthSnap", ToggleLengthSnap));
             AddBinding(new TriggerBinding("LineTool", "ToggleFullLength", ToggleFullLength));
             AddBinding(new TriggerBinding("LineTool", "IncreaseSpacing", IncreaseSpacing));
             AddBinding(new TriggerBinding("LineTool", "DecreaseSpacing", DecreaseSpacing));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetSpacing", SetSpacing));
+            AddBinding(new TriggerBinding("LineTool", "ToggleCountMode", ToggleCountMode));
+            AddBinding(new TriggerBinding("LineTool", "IncreaseCount", IncreaseCount));
+            AddBinding(new TriggerBinding("LineTool", "DecreaseCount", DecreaseCount));
+            AddBinding(new TriggerBinding<int>("LineTool", "SetPlacementCount", SetPlacementCount));
+
+            // Grid UI bindings.
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "GridRowSpacing", () => _lineToolSystem.GridRowSpacing));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "CalculatedGridRowSpacing", () => _lineToolSystem.CalculatedGridRowSpacing));
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "GridColumnCount", () => _lineToolSystem.GridColumnCount));
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "GridRowCount", () => _lineToolSystem.GridRowCount));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "GridColumnCountLocked", () => _lineToolSystem.GridColumnCountLocked));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "GridRowCountLocked", () => _lineToolSystem.GridRowCountLocked));
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "CurrentGridColumns", () => _lineToolSystem.CurrentGridColumns));
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "CurrentGridRows", () => _lineToolSystem.CurrentGridRows));
+            AddBinding(new TriggerBinding("LineTool", "IncreaseGridRowSpacing", IncreaseGridRowSpacing));
+            AddBinding(new TriggerBinding("LineTool", "DecreaseGridRowSpacing", DecreaseGridRowSpacing));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetGridRowSpacing", SetGridRowSpacing));
+            AddBinding(new TriggerBinding("LineTool", "ToggleGridColumnLock", ToggleGridColumnLock));
+            AddBinding(new TriggerBinding("LineTool", "ToggleGridRowLock", ToggleGridRowLock));
+            AddBinding(new TriggerBinding("LineTool", "IncreaseGridColumns", IncreaseGridColumns));
+            AddBinding(new TriggerBinding("LineTool", "DecreaseGridColumns", DecreaseGridColumns));
+            AddBinding(new TriggerBinding<int>("LineTool", "SetGridColumnCount", SetGridColumnCount));
+            AddBinding(new TriggerBinding("LineTool", "IncreaseGridRows", IncreaseGridRows));
+            AddBinding(new TriggerBinding("LineTool", "DecreaseGridRows", DecreaseGridRows));
+            AddBinding(new TriggerBinding<int>("LineTool", "SetGridRowCount", SetGridRowCount));
+
+            // Parallel row UI bindings.
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "ParallelRowCount", () => _lineToolSystem.ParallelRowCount));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "ParallelRowSpacing", () => _lineToolSystem.ParallelRowSpacing));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "ParallelRowsStaggered", () => _lineToolSystem.ParallelRowsStaggered));
+            AddBinding(new TriggerBinding("LineTool", "IncreaseParallelRows", IncreaseParallelRows));
+            AddBinding(new TriggerBinding("LineTool", "DecreaseParallelRows", DecreaseParallelRows));
+            AddBinding(new TriggerBinding<int>("LineTool", "SetParallelRowCount", SetParallelRowCount));
+            AddBinding(new TriggerBinding("LineTool", "IncreaseParallelRowSpacing", IncreaseParallelRowSpacing));
+            AddBinding(new TriggerBinding("LineTool", "DecreaseParallelRowSpacing", DecreaseParallelRowSpacing));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetParallelRowSpacing", SetParallelRowSpacing));
+            AddBinding(new TriggerBinding("LineTool", "ToggleParallelRowStagger", ToggleParallelRowStagger));
+
+            // Follow-network UI bindings.
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "NetworkSideLeftEnabled", () => _lineToolSystem.NetworkSide == NetworkSide.Left));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "NetworkSideRightEnabled", () => _lineToolSystem.NetworkSide == NetworkSide.Right));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "NetworkSideBothEnabled", () => _lineToolSystem.NetworkSide == NetworkSide.Both));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "NetworkOffset", () => _lineToolSystem.NetworkOffset));
+            AddBinding(new TriggerBinding("LineTool", "SetNetworkSideLeft", SetNetworkSideLeft));
+            AddBinding(new TriggerBinding("LineTool", "SetNetworkSideRight", SetNetworkSideRight));
+            AddBinding(new TriggerBinding("LineTool", "SetNetworkSideBoth", SetNetworkSideBoth));
+            AddBinding(new TriggerBinding("LineTool", "IncreaseNetworkOffset", IncreaseNetworkOffset));
+            AddBinding(new TriggerBinding("LineTool", "DecreaseNetworkOffset", DecreaseNetworkOffset));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetNetworkOffset", SetNetworkOffset));
+
+            // Circle UI bindings.
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "CircleArcAngle", () => _lineToolSystem.CircleArcAngle));
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "CircleStartAngle", () => _lineToolSystem.CircleStartAngle));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "CircleStartAngleFixed", () => _lineToolSystem.CircleStartAngleFixed));
+            AddBinding(new TriggerBinding("LineTool", "IncreaseCircleArcAngle", IncreaseCircleArcAngle));
+            AddBinding(new TriggerBinding("LineTool", "DecreaseCircleArcAngle", DecreaseCircleArcAngle));
+            AddBinding(new TriggerBinding<int>("LineTool", "SetCircleArcAngle", SetCircleArcAngle));
+            AddBinding(new TriggerBinding("LineTool", "ToggleCircleStartAngle", ToggleCircleStartAngle));
+            AddBinding(new TriggerBinding("LineTool", "IncreaseCircleStartAngle", IncreaseCircleStartAngle));
+            AddBinding(new TriggerBinding("LineTool", "DecreaseCircleStartAngle", DecreaseCircleStartAngle));
+            AddBinding(new TriggerBinding<int>("LineTool", "SetCircleStartAngle", SetCircleStartAngle));
+
+            // Statistics UI bindings.
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "PreviewCount", () => _lineToolSystem.PreviewCount));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "PreviewLength", () => _lineToolSystem.PreviewLength));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "EffectiveSpacing", () => _lineToolSystem.EffectiveSpacing));
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "PreviewCost", () => _lineToolSystem.PreviewCost));
 
             // Rotation UI bindings.
             AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "AbsoluteRotationEnabled", () => _lineToolSystem.CurrentRotationMode == RotationMode.Absolute));
@@ -100,16 +199,19 @@ namespace LineTool
             AddBinding(new TriggerBinding("LineTool", "SetRandomRotation", SetRandomRotation));
             AddBinding(new TriggerBinding("LineTool", "IncreaseRotation", IncreaseRotation));
             AddBinding(new TriggerBinding("LineTool", "DecreaseRotation", DecreaseRotation));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetRotation", SetRotation));
 
             // Random spacing.
             AddUpdateBinding(new GetterValueBinding<float>("LineTool", "SpacingVariation", () => _lineToolSystem.RandomSpacing));
             AddBinding(new TriggerBinding("LineTool", "IncreaseSpacingVariation", IncreaseSpacingVariation));
             AddBinding(new TriggerBinding("LineTool", "DecreaseSpacingVariation", DecreaseSpacingVariation));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetSpacingVariation", SetSpacingVariation));
 
             // Random offset.
             AddUpdateBinding(new GetterValueBinding<float>("LineTool", "OffsetVariation", () => _lineToolSystem.RandomOffset));
             AddBinding(new TriggerBinding("LineTool", "IncreaseOffsetVariation", IncreaseOffsetVariation));
             AddBinding(new TriggerBinding("LineTool", "DecreaseOffsetVariation", DecreaseOffsetVariation));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetOffsetVariation", SetOffsetVariation));
 
             // Elevation gradient UI bindings.
             AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "FollowTerrainEnabled", () => _lineToolSystem.CurrentElevationMode == ElevationMode.FollowTerrain || _toolSystem.activeTool != _lineToolSystem));
@@ -119,6 +221,109 @@ namespace LineTool
             AddBinding(new TriggerBinding("LineTool", "SetFixedElevation", SetFixedElevation));
             AddBinding(new TriggerBinding("LineTool", "SetConstantSlope", SetConstantSlope));
 
+            // Elevation parameter UI bindings.
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "FixedElevationHeight", () => _lineToolSystem.FixedElevationHeight));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "FixedElevationAbsolute", () => _lineToolSystem.FixedElevationAbsolute));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "SlopeStartHeight", () => _lineToolSystem.SlopeStartHeight));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "SlopeStartHeightFixed", () => _lineToolSystem.SlopeStartHeightFixed));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "SlopeEndHeight", () => _lineToolSystem.SlopeEndHeight));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "SlopeEndHeightFixed", () => _lineToolSystem.SlopeEndHeightFixed));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "SlopePercent", () => _lineToolSystem.SlopePercent));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "SlopeFixed", () => _lineToolSystem.SlopeFixed));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "CalculatedStartElevation", () => _lineToolSystem.CalculatedStartElevation));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "CalculatedEndElevation", () => _lineToolSystem.CalculatedEndElevation));
+            AddUpdateBinding(new GetterValueBinding<float>("LineTool", "CalculatedSlope", () => _lineToolSystem.CalculatedSlope));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetFixedElevationHeight", SetFixedElevationHeight));
+            AddBinding(new TriggerBinding("LineTool", "ToggleFixedElevationAbsolute", ToggleFixedElevationAbsolute));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetSlopeStartHeight", SetSlopeStartHeight));
+            AddBinding(new TriggerBinding("LineTool", "ToggleSlopeStartHeightFixed", ToggleSlopeStartHeightFixed));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetSlopeEndHeight", SetSlopeEndHeight));
+            AddBinding(new TriggerBinding("LineTool", "ToggleSlopeEndHeightFixed", ToggleSlopeEndHeightFixed));
+            AddBinding(new TriggerBinding<float>("LineTool", "SetSlopePercent", SetSlopePercent));
+            AddBinding(new TriggerBinding("LineTool", "ToggleSlopeFixed", ToggleSlopeFixed));
+
+            // Preset UI bindings.
+            _presetFile = PresetFile.Load(_log);
+            UpdatePresetNames();
+            AddUpdateBinding(new GetterValueBinding<string[]>("LineTool", "PresetNames", () => _presetNames, new ArrayWriter<string>()));
+            AddBinding(new TriggerBinding<string>("LineTool", "SavePreset", SavePreset));
+            AddBinding(new TriggerBinding<int>("LineTool", "ApplyPreset", ApplyPreset));
+            AddBinding(new TriggerBinding<int, string>("LineTool", "RenamePreset", RenamePreset));
+            AddBinding(new TriggerBinding<int>("LineTool", "DeletePreset", DeletePreset));
+
+            // Layout import/export UI bindings.
+            AddUpdateBinding(new GetterValueBinding<string>("LineTool", "LayoutMessage", () => _layoutMessage));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "LayoutMessageIsError", () => _layoutMessageIsError));
+            AddBinding(new TriggerBinding("LineTool", "ExportLayout", ExportLayout));
+            AddBinding(new TriggerBinding("LineTool", "ImportLayout", ImportLayout));
+
+            // Tree age UI bindings.
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "TreeSelected", () => _lineToolSystem.TreeSelected));
+            AddUpdateBinding(new GetterValueBinding<int>("LineTool", "AgeMask", () => (int)_lineToolSystem.AgeMask));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "AgeMixEnabled", () => _lineToolSystem.AgeMixEnabled));
+            AddUpdateBinding(new GetterValueBinding<int[]>("LineTool", "AgeWeights", () => _lineToolSystem.AgeWeights, new ArrayWriter<int>()));
+            AddBinding(new TriggerBinding<int>("LineTool", "ToggleAge", ToggleAge));
+            AddBinding(new TriggerBinding("LineTool", "ToggleAgeMix", ToggleAgeMix));
+            AddBinding(new TriggerBinding<int, int>("LineTool", "SetAgeWeight", SetAgeWeight));
+
+            // Prefab mix UI bindings.
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "PrefabMixEnabled", () => _lineToolSystem.PrefabMixEnabled));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "PrefabMixAlternating", () => _lineToolSystem.PrefabMixOrder == PrefabMixOrder.Alternating));
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "SelectedPrefabInMix", () => _lineToolSystem.SelectedPrefabInMix));
+            AddUpdateBinding(new GetterValueBinding<string[]>("LineTool", "PrefabMixNames", () => _lineToolSystem.PrefabMixNames, new ArrayWriter<string>()));
+            AddUpdateBinding(new GetterValueBinding<int[]>("LineTool", "PrefabMixWeights", () => _lineToolSystem.PrefabMixWeights, new ArrayWriter<int>()));
+            AddBinding(new TriggerBinding("LineTool", "TogglePrefabMix", TogglePrefabMix));
+            AddBinding(new TriggerBinding("LineTool", "SetPrefabMixRandom", SetPrefabMixRandom));
+            AddBinding(new TriggerBinding("LineTool", "SetPrefabMixAlternating", SetPrefabMixAlternating));
+            AddBinding(new TriggerBinding("LineTool", "AddToPrefabMix", AddToPrefabMix));
+            AddBinding(new TriggerBinding<int>("LineTool", "RemoveFromPrefabMix", RemoveFromPrefabMix));
+            AddBinding(new TriggerBinding<int, int>("LineTool", "SetPrefabMixWeight", SetPrefabMixWeight));
+
+            // Hotkeys; mode selection hotkeys are available whenever the mode row is shown, the others only when the line tool is active.
+            Dictionary<string, (Action Callback, bool LineToolOnly)> hotkeyCallbacks = new ()
+            {
+                { ModSettings.PointModeActionName, (SetPointMode, true) },
+                { ModSettings.StraightLineModeActionName, (SetStraightMode, false) },
+                { ModSettings.SimpleCurveModeActionName, (SetSimpleCurveMode, false) },
+                { ModSettings.CircleModeActionName, (SetCircleMode, false) },
+                { ModSettings.GridModeActionName, (SetGridMode, false) },
+                { ModSettings.PolylineModeActionName, (SetPolylineMode, false) },
+                { ModSettings.FollowNetworkModeActionName, (SetFollowNetworkMode, false) },
+                { ModSettings.ToggleFenceModeActionName, (ToggleFenceMode, true) },
+                { ModSettings.ToggleW2WModeActionName, (ToggleW2WMode, true) },
+                { ModSettings.ToggleRandomizationActionName, (ToggleRandomization, true) },
+                { ModSettings.IncreaseSpacingActionName, (IncreaseSpacing, true) },
+                { ModSettings.DecreaseSpacingActionName, (DecreaseSpacing, true) },
+                { ModSettings.IncreaseRotationActionName, (IncreaseRotation, true) },
+                { ModSettings.DecreaseRotationActionName, (DecreaseRotation, true) },
+                { ModSettings.CycleElevationModeActionName, (CycleElevationMode, true) },
+            };
+
+            foreach (string actionName in ModSettings.HotkeyActionNames)
+            {
+                (Action callback, bool lineToolOnly) = hotkeyCallbacks[actionName];
+                _hotkeys.Add((Mod.Instance.ActiveSettings.GetAction(actionName), callback, lineToolOnly));
+            }
+
+            // Displayed key bindings are refreshed when settings are applied (bindings can be changed in the options menu at any time).
+            UpdateHotkeyTexts();
+            Mod.Instance.ActiveSettings.onSettingsApplied += OnSettingsApplied;
+            AddUpdateBinding(new GetterValueBinding<string[]>("LineTool", "Hotkeys", () => _hotkeyTexts, new ArrayWriter<string>()));
+
+            // Value formatting UI bindings (unit system and locale number separators).
+            AddUpdateBinding(new GetterValueBinding<bool>("LineTool", "ImperialUnits", () => UnitFormatting.UseImperial));
+            AddUpdateBinding(new GetterValueBinding<string>("LineTool", "DecimalSeparator", () => UnitFormatting.NumberFormat.NumberDecimalSeparator));
+            AddUpdateBinding(new GetterValueBinding<string>("LineTool", "GroupSeparator", () => UnitFormatting.NumberFormat.NumberGroupSeparator));
+
+            // Collapsible section UI bindings.
+            UpdateCollapsedSections();
+            AddUpdateBinding(new GetterValueBinding<string[]>("LineTool", "CollapsedSections", () => _collapsedSections, new ArrayWriter<string>()));
+            AddBinding(new TriggerBinding<string>("LineTool", "ToggleSectionCollapsed", ToggleSectionCollapsed));
+
+            // UI compatibility bindings.
+            AddBinding(new ValueBinding<string>("LineTool", "ToolID", _lineToolSystem.toolID));
+            AddBinding(new TriggerBinding<string>("LineTool", "ReportMissingUIModules", ReportMissingUIModules));
+
             // Add additional binding to capture tree age selection changes.
             _ageMaskBinding = AccessTools.Field(typeof(ToolbarUISystem), "m_AgeMaskBinding")?.GetValue(World.GetOrCreateSystemManaged<ToolbarUISystem>()) as ValueBinding<int>;
             if (_ageMaskBinding is not null)
@@ -138,6 +343,15 @@ namespace LineTool
             }
         }
 
+        /// <summary>
+        /// Called when the system is destroyed.
+        /// </summary>
+        protected override void OnDestroy()
+        {
+            Mod.Instance.ActiveSettings.onSettingsApplied -= OnSettingsApplied;
+            base.OnDestroy();
+        }
+
         /// <summary>
         /// Called every UI update.
         /// </summary>
@@ -176,6 +390,57 @@ namespace LineTool
                     }
                 }
             }
+
+            // Handle hotkeys.
+            bool showModeRow = ShouldShowModeRow();
+            foreach ((ProxyAction action, Action callback, bool lineToolOnly) in _hotkeys)
+            {
+                action.shouldBeEnabled = lineToolOnly ? _toolIsActive : showModeRow;
+                if (action.WasPerformedThisFrame())
+                {
+                    callback();
+                }
+            }
+        }
+
+        /// <summary>
+        /// Gets the display text for an input action's current keyboard binding, e.g. "Alt + 1".
+        /// </summary>
+        /// <param name="action">Input action.</param>
+        /// <returns>Binding display text, or an empty string if the action has no keyboard binding.</returns>
+        private static string GetBindingText(ProxyAction action)
+        {
+            foreach (ProxyBinding binding in action.bindings)
+            {
+                if (!binding.isKeyboard || !binding.isSet)
+                {
+                    continue;
+                }
+
+                StringBuilder text = new ();
+                foreach (ProxyModifier modifier in binding.modifiers)
+                {
+                    text.Append(InputControlPath.ToHumanReadableString(modifier.path, InputControlPath.HumanReadableStringOptions.OmitDevice));
+                    text.Append(" + ");
+                }
+
+                text.Append(InputControlPath.ToHumanReadableString(binding.path, InputControlPath.HumanReadableStringOptions.OmitDevice));
+                return text.ToString();
+            }
+
+            return string.Empty;
+        }
+
+        /// <summary>
+        /// Updates the hotkey binding display texts, replacing the array (to trigger a UI binding update) only if anything has changed.
+        /// </summary>
+        private void UpdateHotkeyTexts()
+        {
+            string[] hotkeyTexts = _hotkeys.Select(x => GetBindingText(x.Action)).ToArray();
+            if (!hotkeyTexts.SequenceEqual(_hotkeyTexts))
+            {
+                _hotkeyTexts = hotkeyTexts;
+            }
         }
 
         /// <summary>
@@ -212,6 +477,12 @@ namespace LineTool
             }
         }
 
+        /// <summary>
+        /// Event callback to refresh the hotkey binding display texts when settings are applied.
+        /// </summary>
+        /// <param name="setting">Applied settings.</param>
+        private void OnSettingsApplied(Setting setting) => UpdateHotkeyTexts();
+
         /// <summary>
         /// Event callback to set single item mode.
         /// </summary>
@@ -262,6 +533,26 @@ namespace LineTool
             _lineToolSystem.EnableTool();
         }
 
+        /// <summary>
+        /// Event callback to set polyline mode.
+        /// </summary>
+        private void SetPolylineMode()
+        {
+            // Ensure tool is activated.
+            _lineToolSystem.Mode = LineMode.Polyline;
+            _lineToolSystem.EnableTool();
+        }
+
+        /// <summary>
+        /// Event callback to set follow-network mode.
+        /// </summary>
+        private void SetFollowNetworkMode()
+        {
+            // Ensure tool is activated.
+            _lineToolSystem.Mode = LineMode.FollowNetwork;
+            _lineToolSystem.EnableTool();
+        }
+
         /// <summary>
         /// Event callback to toggle fence mode.
         /// </summary>
@@ -307,6 +598,21 @@ namespace LineTool
             }
         }
 
+        /// <summary>
+        /// Event callback to toggle count mode.
+        /// </summary>
+        private void ToggleCountMode()
+        {
+            if (_lineToolSystem.CurrentSpacingMode != SpacingMode.Count)
+            {
+                _lineToolSystem.CurrentSpacingMode = SpacingMode.Count;
+            }
+            else
+            {
+                _lineToolSystem.CurrentSpacingMode = SpacingMode.Manual;
+            }
+        }
+
         /// <summary>
         /// Event callback to toggle snap-to-length.
         /// </summary>
@@ -318,10 +624,21 @@ namespace LineTool
         private void ToggleRandomization() => _lineToolSystem.RandomizationEnabled = !_lineToolSystem.RandomizationEnabled;
 
         /// <summary>
-        /// Event callback to update the fixed random seed.
+        /// Event callback to update the random seed to a new random value.
         /// </summary>
         private void UpdateRandomSeed() => _lineToolSystem.UpdateRandomSeed();
 
+        /// <summary>
+        /// Event callback to set the random seed to an entered (or restored) value.
+        /// </summary>
+        /// <param name="seed">Random seed to set.</param>
+        private void SetRandomSeed(int seed) => _lineToolSystem.UpdateRandomSeed(seed);
+
+        /// <summary>
+        /// Event callback to copy the current random seed to the system clipboard.
+        /// </summary>
+        private void CopyRandomSeed() => UnityEngine.GUIUtility.systemCopyBuffer = _lineToolSystem.RandomSeedValue.ToString();
+
         /// <summary>
         /// Event callback to increase spacing by one step.
         /// </summary>
@@ -332,6 +649,191 @@ namespace LineTool
         /// </summary>
         private void DecreaseSpacing() => _lineToolSystem.Spacing -= GetSpacingStep();
 
+        /// <summary>
+        /// Event callback to set spacing to an entered value.
+        /// </summary>
+        /// <param name="spacing">Spacing to set.</param>
+        private void SetSpacing(float spacing) => _lineToolSystem.Spacing = spacing;
+
+        /// <summary>
+        /// Event callback to increase the placement count by one step.
+        /// </summary>
+        private void IncreaseCount() => _lineToolSystem.PlacementCount += GetCountStep();
+
+        /// <summary>
+        /// Event callback to decrease the placement count by one step.
+        /// </summary>
+        private void DecreaseCount() => _lineToolSystem.PlacementCount -= GetCountStep();
+
+        /// <summary>
+        /// Event callback to set the placement count to an entered value.
+        /// </summary>
+        /// <param name="count">Placement count to set.</param>
+        private void SetPlacementCount(int count) => _lineToolSystem.PlacementCount = count;
+
+        /// <summary>
+        /// Event callback to increase grid row spacing by one step.
+        /// </summary>
+        private void IncreaseGridRowSpacing() => _lineToolSystem.GridRowSpacing += GetSpacingStep();
+
+        /// <summary>
+        /// Event callback to decrease grid row spacing by one step.
+        /// </summary>
+        private void DecreaseGridRowSpacing() => _lineToolSystem.GridRowSpacing -= GetSpacingStep();
+
+        /// <summary>
+        /// Event callback to set grid row spacing to an entered value.
+        /// </summary>
+        /// <param name="spacing">Row spacing to set.</param>
+        private void SetGridRowSpacing(float spacing) => _lineToolSystem.GridRowSpacing = spacing;
+
+        /// <summary>
+        /// Event callback to toggle the fixed grid column count.
+        /// </summary>
+        private void ToggleGridColumnLock() => _lineToolSystem.GridColumnCountLocked = !_lineToolSystem.GridColumnCountLocked;
+
+        /// <summary>
+        /// Event callback to toggle the fixed grid row count.
+        /// </summary>
+        private void ToggleGridRowLock() => _lineToolSystem.GridRowCountLocked = !_lineToolSystem.GridRowCountLocked;
+
+        /// <summary>
+        /// Event callback to increase the fixed grid column count by one step.
+        /// </summary>
+        private void IncreaseGridColumns() => _lineToolSystem.GridColumnCount += GetCountStep();
+
+        /// <summary>
+        /// Event callback to decrease the fixed grid column count by one step.
+        /// </summary>
+        private void DecreaseGridColumns() => _lineToolSystem.GridColumnCount -= GetCountStep();
+
+        /// <summary>
+        /// Event callback to set the fixed grid column count to an entered value.
+        /// </summary>
+        /// <param name="count">Column count to set.</param>
+        private void SetGridColumnCount(int count) => _lineToolSystem.GridColumnCount = count;
+
+        /// <summary>
+        /// Event callback to increase the fixed grid row count by one step.
+        /// </summary>
+        private void IncreaseGridRows() => _lineToolSystem.GridRowCount += GetCountStep();
+
+        /// <summary>
+        /// Event callback to decrease the fixed grid row count by one step.
+        /// </summary>
+        private void DecreaseGridRows() => _lineToolSystem.GridRowCount -= GetCountStep();
+
+        /// <summary>
+        /// Event callback to set the fixed grid row count to an entered value.
+        /// </summary>
+        /// <param name="count">Row count to set.</param>
+        private void SetGridRowCount(int count) => _lineToolSystem.GridRowCount = count;
+
+        /// <summary>
+        /// Event callback to increase the number of parallel rows by one step.
+        /// </summary>
+        private void IncreaseParallelRows() => _lineToolSystem.ParallelRowCount += GetCountStep();
+
+        /// <summary>
+        /// Event callback to decrease the number of parallel rows by one step.
+        /// </summary>
+        private void DecreaseParallelRows() => _lineToolSystem.ParallelRowCount -= GetCountStep();
+
+        /// <summary>
+        /// Event callback to set the number of parallel rows to an entered value.
+        /// </summary>
+        /// <param name="count">Row count to set.</param>
+        private void SetParallelRowCount(int count) => _lineToolSystem.ParallelRowCount = count;
+
+        /// <summary>
+        /// Event callback to increase parallel row spacing by one step.
+        /// </summary>
+        private void IncreaseParallelRowSpacing() => _lineToolSystem.ParallelRowSpacing += GetSpacingStep();
+
+        /// <summary>
+        /// Event callback to decrease parallel row spacing by one step.
+        /// </summary>
+        private void DecreaseParallelRowSpacing() => _lineToolSystem.ParallelRowSpacing -= GetSpacingStep();
+
+        /// <summary>
+        /// Event callback to set parallel row spacing to an entered value.
+        /// </summary>
+        /// <param name="spacing">Row spacing to set.</param>
+        private void SetParallelRowSpacing(float spacing) => _lineToolSystem.ParallelRowSpacing = spacing;
+
+        /// <summary>
+        /// Event callback to toggle parallel row staggering.
+        /// </summary>
+        private void ToggleParallelRowStagger() => _lineToolSystem.ParallelRowsStaggered = !_lineToolSystem.ParallelRowsStaggered;
+
+        /// <summary>
+        /// Event callback to place along the left side of followed networks.
+        /// </summary>
+        private void SetNetworkSideLeft() => _lineToolSystem.NetworkSide = NetworkSide.Left;
+
+        /// <summary>
+        /// Event callback to place along the right side of followed networks.
+        /// </summary>
+        private void SetNetworkSideRight() => _lineToolSystem.NetworkSide = NetworkSide.Right;
+
+        /// <summary>
+        /// Event callback to place along both sides of followed networks.
+        /// </summary>
+        private void SetNetworkSideBoth() => _lineToolSystem.NetworkSide = NetworkSide.Both;
+
+        /// <summary>
+        /// Event callback to increase the network edge offset by one step.
+        /// </summary>
+        private void IncreaseNetworkOffset() => _lineToolSystem.NetworkOffset += GetSpacingStep();
+
+        /// <summary>
+        /// Event callback to decrease the network edge offset by one step.
+        /// </summary>
+        private void DecreaseNetworkOffset() => _lineToolSystem.NetworkOffset -= GetSpacingStep();
+
+        /// <summary>
+        /// Event callback to set the network edge offset to an entered value.
+        /// </summary>
+        /// <param name="offset">Offset to set.</param>
+        private void SetNetworkOffset(float offset) => _lineToolSystem.NetworkOffset = offset;
+
+        /// <summary>
+        /// Event callback to increase the circle arc angle by one step.
+        /// </summary>
+        private void IncreaseCircleArcAngle() => _lineToolSystem.CircleArcAngle += GetRotationStep();
+
+        /// <summary>
+        /// Event callback to decrease the circle arc angle by one step.
+        /// </summary>
+        private void DecreaseCircleArcAngle() => _lineToolSystem.CircleArcAngle -= GetRotationStep();
+
+        /// <summary>
+        /// Event callback to set the circle arc angle to an entered value.
+        /// </summary>
+        /// <param name="angle">Arc angle to set (in degrees).</param>
+        private void SetCircleArcAngle(int angle) => _lineToolSystem.CircleArcAngle = angle;
+
+        /// <summary>
+        /// Event callback to toggle the fixed circle start angle.
+        /// </summary>
+        private void ToggleCircleStartAngle() => _lineToolSystem.CircleStartAngleFixed = !_lineToolSystem.CircleStartAngleFixed;
+
+        /// <summary>
+        /// Event callback to increase the circle start angle by one step.
+        /// </summary>
+        private void IncreaseCircleStartAngle() => _lineToolSystem.CircleStartAngle += GetRotationStep();
+
+        /// <summary>
+        /// Event callback to decrease the circle start angle by one step.
+        /// </summary>
+        private void DecreaseCircleStartAngle() => _lineToolSystem.CircleStartAngle -= GetRotationStep();
+
+        /// <summary>
+        /// Event callback to set the circle start angle to an entered value.
+        /// </summary>
+        /// <param name="angle">Start angle to set (compass bearing in degrees).</param>
+        private void SetCircleStartAngle(int angle) => _lineToolSystem.CircleStartAngle = angle;
+
         /// <summary>
         /// Event callback to set relative rotation.
         /// </summary>
@@ -362,6 +864,82 @@ namespace LineTool
         /// </summary>
         private void SetConstantSlope() => _lineToolSystem.CurrentElevationMode = ElevationMode.ConstantSlope;
 
+        /// <summary>
+        /// Event callback to set the fixed elevation mode height.
+        /// </summary>
+        /// <param name="height">Height (absolute, or offset above terrain) to set.</param>
+        private void SetFixedElevationHeight(float height) => _lineToolSystem.FixedElevationHeight = height;
+
+        /// <summary>
+        /// Event callback to toggle the fixed elevation mode height between absolute and offset above terrain.
+        /// </summary>
+        private void ToggleFixedElevationAbsolute() => _lineToolSystem.FixedElevationAbsolute = !_lineToolSystem.FixedElevationAbsolute;
+
+        /// <summary>
+        /// Event callback to set the constant slope mode fixed starting height.
+        /// </summary>
+        /// <param name="height">Height to set.</param>
+        private void SetSlopeStartHeight(float height) => _lineToolSystem.SlopeStartHeight = height;
+
+        /// <summary>
+        /// Event callback to toggle the constant slope mode fixed starting height.
+        /// When fixing, the fixed height is initialized to the current preview value (if any).
+        /// </summary>
+        private void ToggleSlopeStartHeightFixed()
+        {
+            if (!_lineToolSystem.SlopeStartHeightFixed && _lineToolSystem.PreviewCount > 0)
+            {
+                _lineToolSystem.SlopeStartHeight = _lineToolSystem.CalculatedStartElevation;
+            }
+
+            _lineToolSystem.SlopeStartHeightFixed = !_lineToolSystem.SlopeStartHeightFixed;
+        }
+
+        /// <summary>
+        /// Event callback to set the constant slope mode fixed ending height.
+        /// </summary>
+        /// <param name="height">Height to set.</param>
+        private void SetSlopeEndHeight(float height) => _lineToolSystem.SlopeEndHeight = height;
+
+        /// <summary>
+        /// Event callback to toggle the constant slope mode fixed ending height.
+        /// When fixing, the fixed height is initialized to the current preview value (if any).
+        /// </summary>
+        private void ToggleSlopeEndHeightFixed()
+        {
+            if (!_lineToolSystem.SlopeEndHeightFixed && _lineToolSystem.PreviewCount > 0)
+            {
+                _lineToolSystem.SlopeEndHeight = _lineToolSystem.CalculatedEndElevation;
+            }
+
+            _lineToolSystem.SlopeEndHeightFixed = !_lineToolSystem.SlopeEndHeightFixed;
+        }
+
+        /// <summary>
+        /// Event callback to set the constant slope mode fixed gradient.
+        /// </summary>
+        /// <param name="slope">Gradient (in percent) to set.</param>
+        private void SetSlopePercent(float slope) => _lineToolSystem.SlopePercent = slope;
+
+        /// <summary>
+        /// Event callback to toggle the constant slope mode fixed gradient.
+        /// When fixing, the fixed gradient is initialized to the current preview value (if any).
+        /// </summary>
+        private void ToggleSlopeFixed()
+        {
+            if (!_lineToolSystem.SlopeFixed && _lineToolSystem.PreviewCount > 0)
+            {
+                _lineToolSystem.SlopePercent = _lineToolSystem.CalculatedSlope;
+            }
+
+            _lineToolSystem.SlopeFixed = !_lineToolSystem.SlopeFixed;
+        }
+
+        /// <summary>
+        /// Hotkey callback to cycle to the next elevation mode.
+        /// </summary>
+        private void CycleElevationMode() => _lineToolSystem.CurrentElevationMode = (ElevationMode)(((int)_lineToolSystem.CurrentElevationMode + 1) % Enum.GetValues(typeof(ElevationMode)).Length);
+
         /// <summary>
         /// Event callback to increase rotation by one step.
         /// </summary>
@@ -372,6 +950,12 @@ namespace LineTool
         /// </summary>
         private void DecreaseRotation() => _lineToolSystem.Rotation -= GetRotationStep();
 
+        /// <summary>
+        /// Event callback to set rotation to an entered value.
+        /// </summary>
+        /// <param name="rotation">Rotation to set (in degrees).</param>
+        private void SetRotation(float rotation) => _lineToolSystem.Rotation = (int)Math.Round(rotation);
+
         /// <summary>
         /// Event callback to increase random spacing variation by one step.
         /// </summary>
@@ -382,6 +966,12 @@ namespace LineTool
         /// </summary>
         private void DecreaseSpacingVariation() => _lineToolSystem.RandomSpacing -= GetSpacingStep();
 
+        /// <summary>
+        /// Event callback to set random spacing variation to an entered value.
+        /// </summary>
+        /// <param name="variation">Random spacing variation to set.</param>
+        private void SetSpacingVariation(float variation) => _lineToolSystem.RandomSpacing = variation;
+
         /// <summary>
         /// Event callback to increase random spacing variation by one step.
         /// </summary>
@@ -392,6 +982,332 @@ namespace LineTool
         /// </summary>
         private void DecreaseOffsetVariation() => _lineToolSystem.RandomOffset -= GetSpacingStep();
 
+        /// <summary>
+        /// Event callback to set random offset variation to an entered value.
+        /// </summary>
+        /// <param name="variation">Random offset variation to set.</param>
+        private void SetOffsetVariation(float variation) => _lineToolSystem.RandomOffset = variation;
+
+        /// <summary>
+        /// Event callback to toggle a tree age in the active age mask.
+        /// At least one age always remains selected.
+        /// </summary>
+        /// <param name="age">Age mask bit to toggle.</param>
+        private void ToggleAge(int age)
+        {
+            int newMask = (int)_lineToolSystem.AgeMask ^ age;
+            if (newMask != 0)
+            {
+                _lineToolSystem.AgeMask = (Game.Tools.AgeMask)newMask;
+
+                // Keep the game's toolbar age selection in sync.
+                _ageMaskBinding?.Update(newMask);
+            }
+        }
+
+        /// <summary>
+        /// Event callback to toggle the weighted random tree age mix.
+        /// </summary>
+        private void ToggleAgeMix() => _lineToolSystem.AgeMixEnabled = !_lineToolSystem.AgeMixEnabled;
+
+        /// <summary>
+        /// Event callback to set a weighted random tree age mix weight to an entered value.
+        /// </summary>
+        /// <param name="ageIndex">Age index (child, teen, adult, elderly, dead).</param>
+        /// <param name="weight">Weight to set.</param>
+        private void SetAgeWeight(int ageIndex, int weight) => _lineToolSystem.SetAgeWeight(ageIndex, weight);
+
+        /// <summary>
+        /// Event callback to toggle the prefab mix.
+        /// </summary>
+        private void TogglePrefabMix() => _lineToolSystem.PrefabMixEnabled = !_lineToolSystem.PrefabMixEnabled;
+
+        /// <summary>
+        /// Event callback to set weighted random prefab mix order.
+        /// </summary>
+        private void SetPrefabMixRandom() => _lineToolSystem.PrefabMixOrder = PrefabMixOrder.Random;
+
+        /// <summary>
+        /// Event callback to set strict alternating prefab mix order.
+        /// </summary>
+        private void SetPrefabMixAlternating() => _lineToolSystem.PrefabMixOrder = PrefabMixOrder.Alternating;
+
+        /// <summary>
+        /// Event callback to add the currently selected prefab to the prefab mix.
+        /// Adding a prefab also enables the mix.
+        /// </summary>
+        private void AddToPrefabMix()
+        {
+            _lineToolSystem.AddSelectedPrefabToMix();
+            _lineToolSystem.PrefabMixEnabled = true;
+        }
+
+        /// <summary>
+        /// Event callback to remove an entry from the prefab mix.
+        /// </summary>
+        /// <param name="index">Prefab mix entry index.</param>
+        private void RemoveFromPrefabMix(int index) => _lineToolSystem.RemovePrefabMixEntry(index);
+
+        /// <summary>
+        /// Event callback to set a prefab mix entry weight to an entered value.
+        /// </summary>
+        /// <param name="index">Prefab mix entry index.</param>
+        /// <param name="weight">Weight to set.</param>
+        private void SetPrefabMixWeight(int index, int weight) => _lineToolSystem.SetPrefabMixWeight(index, weight);
+
+        /// <summary>
+        /// Event callback to save the current tool settings as a named preset.
+        /// An existing preset with the same name is replaced.
+        /// </summary>
+        /// <param name="name">Preset name.</param>
+        private void SavePreset(string name)
+        {
+            // Don't save unnamed presets.
+            if (string.IsNullOrWhiteSpace(name))
+            {
+                return;
+            }
+
+            // Capture current settings.
+            ToolPreset preset = new ()
+            {
+                Name = name.Trim(),
+                Mode = _toolSystem.activeTool == _lineToolSystem ? _lineToolSystem.Mode : LineMode.Point,
+                SpacingMode = _lineToolSystem.CurrentSpacingMode,
+                Spacing = _lineToolSystem.Spacing,
+                PlacementCount = _lineToolSystem.PlacementCount,
+                GridRowSpacing = _lineToolSystem.GridRowSpacing,
+                GridColumnCount = _lineToolSystem.GridColumnCount,
+                GridRowCount = _lineToolSystem.GridRowCount,
+                GridColumnCountLocked = _lineToolSystem.GridColumnCountLocked,
+                GridRowCountLocked = _lineToolSystem.GridRowCountLocked,
+                ParallelRowCount = _lineToolSystem.ParallelRowCount,
+                ParallelRowSpacing = _lineToolSystem.ParallelRowSpacing,
+                ParallelRowsStaggered = _lineToolSystem.ParallelRowsStaggered,
+                NetworkSide = _lineToolSystem.NetworkSide,
+                NetworkOffset = _lineToolSystem.NetworkOffset,
+                CircleArcAngle = _lineToolSystem.CircleArcAngle,
+                CircleStartAngle = _lineToolSystem.CircleStartAngle,
+                CircleStartAngleFixed = _lineToolSystem.CircleStartAngleFixed,
+                RotationMode = _lineToolSystem.CurrentRotationMode,
+                Rotation = _lineToolSystem.Rotation,
+                RandomSpacing = _lineToolSystem.RandomSpacing,
+                RandomOffset = _lineToolSystem.RandomOffset,
+                ElevationMode = _lineToolSystem.CurrentElevationMode,
+                FixedElevationHeight = _lineToolSystem.FixedElevationHeight,
+                FixedElevationAbsolute = _lineToolSystem.FixedElevationAbsolute,
+                SlopeStartHeight = _lineToolSystem.SlopeStartHeight,
+                SlopeStartHeightFixed = _lineToolSystem.SlopeStartHeightFixed,
+                SlopeEndHeight = _lineToolSystem.SlopeEndHeight,
+                SlopeEndHeightFixed = _lineToolSystem.SlopeEndHeightFixed,
+                SlopePercent = _lineToolSystem.SlopePercent,
+                SlopeFixed = _lineToolSystem.SlopeFixed,
+                RandomizationEnabled = _lineToolSystem.RandomizationEnabled,
+                LengthSnapEnabled = _lineToolSystem.LengthSnapEnabled,
+            };
+
+            // Replace any existing preset with the same name, otherwise add as a new preset.
+            int existingIndex = _presetFile.Presets.FindIndex(x => x.Name == preset.Name);
+            if (existingIndex >= 0)
+            {
+                _presetFile.Presets[existingIndex] = preset;
+            }
+            else
+            {
+                _presetFile.Presets.Add(preset);
+            }
+
+            _presetFile.Save(_log);
+            UpdatePresetNames();
+        }
+
+        /// <summary>
+        /// Event callback to apply a saved preset.
+        /// </summary>
+        /// <param name="index">Preset index.</param>
+        private void ApplyPreset(int index)
+        {
+            // Bounds check.
+            if (index < 0 || index >= _presetFile.Presets.Count)
+            {
+                return;
+            }
+
+            ToolPreset preset = _presetFile.Presets[index];
+
+            // Set mode first, as this (re)selects the active prefab and therefore determines spacing constraints and fence/wall-to-wall mode validity.
+            if (preset.Mode == LineMode.Point)
+            {
+                if (_toolSystem.activeTool == _lineToolSystem)
+                {
+                    SetPointMode();
+                }
+            }
+            else
+            {
+                _lineToolSystem.Mode = preset.Mode;
+                _lineToolSystem.EnableTool();
+            }
+
+            // Apply remaining settings.
+            _lineToolSystem.CurrentSpacingMode = preset.SpacingMode;
+            _lineToolSystem.Spacing = preset.Spacing;
+            _lineToolSystem.PlacementCount = preset.PlacementCount;
+            _lineToolSystem.GridRowSpacing = preset.GridRowSpacing;
+            _lineToolSystem.GridColumnCount = preset.GridColumnCount;
+            _lineToolSystem.GridRowCount = preset.GridRowCount;
+            _lineToolSystem.GridColumnCountLocked = preset.GridColumnCountLocked;
+            _lineToolSystem.GridRowCountLocked = preset.GridRowCountLocked;
+            _lineToolSystem.ParallelRowCount = preset.ParallelRowCount;
+            _lineToolSystem.ParallelRowSpacing = preset.ParallelRowSpacing;
+            _lineToolSystem.ParallelRowsStaggered = preset.ParallelRowsStaggered;
+            _lineToolSystem.NetworkSide = preset.NetworkSide;
+            _lineToolSystem.NetworkOffset = preset.NetworkOffset;
+            _lineToolSystem.CircleArcAngle = preset.CircleArcAngle;
+            _lineToolSystem.CircleStartAngle = preset.CircleStartAngle;
+            _lineToolSystem.CircleStartAngleFixed = preset.CircleStartAngleFixed;
+            _lineToolSystem.CurrentRotationMode = preset.RotationMode;
+            _lineToolSystem.Rotation = preset.Rotation;
+            _lineToolSystem.RandomSpacing = preset.RandomSpacing;
+            _lineToolSystem.RandomOffset = preset.RandomOffset;
+            _lineToolSystem.CurrentElevationMode = preset.ElevationMode;
+            _lineToolSystem.FixedElevationHeight = preset.FixedElevationHeight;
+            _lineToolSystem.FixedElevationAbsolute = preset.FixedElevationAbsolute;
+            _lineToolSystem.SlopeStartHeight = preset.SlopeStartHeight;
+            _lineToolSystem.SlopeStartHeightFixed = preset.SlopeStartHeightFixed;
+            _lineToolSystem.SlopeEndHeight = preset.SlopeEndHeight;
+            _lineToolSystem.SlopeEndHeightFixed = preset.SlopeEndHeightFixed;
+            _lineToolSystem.SlopePercent = preset.SlopePercent;
+            _lineToolSystem.SlopeFixed = preset.SlopeFixed;
+            _lineToolSystem.RandomizationEnabled = preset.RandomizationEnabled;
+            _lineToolSystem.LengthSnapEnabled = preset.LengthSnapEnabled;
+        }
+
+        /// <summary>
+        /// Event callback to toggle whether a tool options section is collapsed.
+        /// The new state is saved to the mod settings so that it's remembered between sessions.
+        /// </summary>
+        /// <param name="sectionName">Section name.</param>
+        private void ToggleSectionCollapsed(string sectionName)
+        {
+            if (string.IsNullOrWhiteSpace(sectionName))
+            {
+                return;
+            }
+
+            List<string> collapsedSections = _collapsedSections.ToList();
+            if (!collapsedSections.Remove(sectionName))
+            {
+                collapsedSections.Add(sectionName);
+            }
+
+            Mod.Instance.ActiveSettings.CollapsedSections = string.Join(",", collapsedSections);
+            Mod.Instance.ActiveSettings.ApplyAndSave();
+            UpdateCollapsedSections();
+        }
+
+        /// <summary>
+        /// Event callback to log any game UI modules that the UI couldn't find (fallback components are used in their place).
+        /// </summary>
+        /// <param name="missingModules">Missing module paths.</param>
+        private void ReportMissingUIModules(string missingModules) => _log.Warn($"Line Tool UI degraded; missing game UI modules: {missingModules}");
+
+        /// <summary>
+        /// Event callback to export the current line layout as JSON to the system clipboard.
+        /// </summary>
+        private void ExportLayout()
+        {
+            LineLayout layout = _lineToolSystem.CreateLayout();
+            if (layout is null)
+            {
+                SetLayoutMessage("LINETOOL.LayoutErrorNothingToExport", true);
+                return;
+            }
+
+            UnityEngine.GUIUtility.systemCopyBuffer = layout.ToJson();
+            SetLayoutMessage("LINETOOL.LayoutExported", false);
+        }
+
+        /// <summary>
+        /// Event callback to import a JSON line layout from the system clipboard.
+        /// </summary>
+        private void ImportLayout()
+        {
+            if (!LineLayout.TryParse(UnityEngine.GUIUtility.systemCopyBuffer, out LineLayout layout, out string errorKey) || !_lineToolSystem.ApplyLayout(layout, out errorKey))
+            {
+                _log.Info($"unable to import layout: {errorKey}");
+                SetLayoutMessage(errorKey, true);
+                return;
+            }
+
+            SetLayoutMessage("LINETOOL.LayoutImported", false);
+        }
+
+        /// <summary>
+        /// Sets the layout import/export status message.
+        /// </summary>
+        /// <param name="messageKey">Message localization key.</param>
+        /// <param name="isError"><c>true</c> if the message is an error, <c>false</c> otherwise.</param>
+        private void SetLayoutMessage(string messageKey, bool isError)
+        {
+            _layoutMessage = messageKey;
+            _layoutMessageIsError = isError;
+        }
+
+        /// <summary>
+        /// Event callback to rename a saved preset.
+        /// </summary>
+        /// <param name="index">Preset index.</param>
+        /// <param name="name">New preset name.</param>
+        private void RenamePreset(int index, string name)
+        {
+            // Bounds and validity checks.
+            if (index < 0 || index >= _presetFile.Presets.Count || string.IsNullOrWhiteSpace(name))
+            {
+                return;
+            }
+
+            // Don't allow duplicate names.
+            name = name.Trim();
+            if (_presetFile.Presets.Any(x => x.Name == name))
+            {
+                return;
+            }
+
+            _presetFile.Presets[index].Name = name;
+            _presetFile.Save(_log);
+            UpdatePresetNames();
+        }
+
+        /// <summary>
+        /// Event callback to delete a saved preset.
+        /// </summary>
+        /// <param name="index">Preset index.</param>
+        private void DeletePreset(int index)
+        {
+            // Bounds check.
+            if (index < 0 || index >= _presetFile.Presets.Count)
+            {
+                return;
+            }
+
+            _presetFile.Presets.RemoveAt(index);
+            _presetFile.Save(_log);
+            UpdatePresetNames();
+        }
+
+        /// <summary>
+        /// Updates the preset name list for the UI.
+        /// A new array is created each time so that the binding detects the change.
+        /// </summary>
+        private void UpdatePresetNames() => _presetNames = _presetFile.Presets.Select(x => x.Name).ToArray();
+
+        /// <summary>
+        /// Updates the collapsed section list for the UI from the mod settings.
+        /// A new array is created each time so that the binding detects the change.
+        /// </summary>
+        private void UpdateCollapsedSections() => _collapsedSections = Mod.Instance.ActiveSettings.CollapsedSections?.Split(new char[] { ',' }, StringSplitOptions.RemoveEmptyEntries) ?? new string[0];
+
         /// <summary>
         /// Gets the spacing step value to apply, including effects of shift- (x10) or control- (x0.1) modifiers.
         /// </summary>
@@ -413,6 +1329,12 @@ namespace LineTool
             return 1f;
         }
 
+        /// <summary>
+        /// Gets the count step value to apply, including effects of shift- (x10) modifier.
+        /// </summary>
+        /// <returns>10 if the shift key is pressed, and 1 otherwise.</returns>
+        private int GetCountStep() => Keyboard.current.shiftKey.isPressed ? 10 : 1;
+
         /// <summary>
         /// Gets the rotation step value to apply, including effects of shift- (x10) or control- (x0.1) modifiers.
         /// </summary>
@@ -0,0 +1,85 @@
+﻿// <copyright file="UnitFormatting.cs" company="algernon (K. Algernon A. Sheppard)">
+// Copyright (c) algernon (K. Algernon A. Sheppard). All rights reserved.
+// Licensed under the Apache Licence, Version 2.0 (the "License"); you may not use this file except in compliance with the License.
+// See LICENSE.txt file in the project root for full license information.
+// </copyright>
+
+namespace LineTool
+{
+    using System;
+    using System.Globalization;
+    using Game.SceneFlow;
+    using Game.Settings;
+
+    /// <summary>
+    /// Unit- and locale-aware value formatting, following the game's unit system setting and active locale.
+    /// Lengths are stored in metres and angles in degrees; lengths are displayed in feet when the game is set to imperial units.
+    /// </summary>
+    public static class UnitFormatting
+    {
+        /// <summary>
+        /// Feet per metre.
+        /// </summary>
+        public const float FeetPerMetre = 3.28084f;
+
+        // Cached number format for the most recently used locale.
+        private static string _localeID;
+        private static NumberFormatInfo _numberFormat = CultureInfo.InvariantCulture.NumberFormat;
+
+        /// <summary>
+        /// Gets a value indicating whether the game is set to imperial units.
+        /// </summary>
+        public static bool UseImperial => SharedSettings.instance?.userInterface?.unitSystem == InterfaceSettings.UnitSystem.Freedom;
+
+        /// <summary>
+        /// Gets the number format for the game's active locale (invariant if the locale isn't recognised).
+        /// </summary>
+        public static NumberFormatInfo NumberFormat
+        {
+            get
+            {
+                string localeID = GameManager.instance?.localizationManager?.activeLocaleId;
+                if (localeID != _localeID)
+                {
+                    _localeID = localeID;
+                    try
+                    {
+                        _numberFormat = string.IsNullOrEmpty(localeID) ? CultureInfo.InvariantCulture.NumberFormat : CultureInfo.GetCultureInfo(localeID).NumberFormat;
+                    }
+                    catch (ArgumentException)
+                    {
+                        // Unrecognised locale (CultureNotFoundException); fall back to invariant formatting.
+                        _numberFormat = CultureInfo.InvariantCulture.NumberFormat;
+                    }
+                }
+
+                return _numberFormat;
+            }
+        }
+
+        /// <summary>
+        /// Formats a length for display, in metres or feet as set by the game's unit system.
+        /// </summary>
+        /// <param name="metres">Length in metres.</param>
+        /// <param name="fractionDigits">Number of fractional digits to display.</param>
+        /// <returns>Formatted length, including the unit.</returns>
+        public static string FormatLength(float metres, int fractionDigits = 1) => UseImperial
+            ? FormatNumber(metres * FeetPerMetre, fractionDigits) + " ft"
+            : FormatNumber(metres, fractionDigits) + " m";
+
+        /// <summary>
+        /// Formats an angle for display, in whole degrees.
+        /// </summary>
+        /// <param name="degrees">Angle in degrees.</param>
+        /// <returns>Formatted angle, including the unit.</returns>
+        public static string FormatAngle(float degrees) => FormatNumber(degrees, 0) + "°";
+
+        /// <summary>
+        /// Formats a number for display using the game's active locale.
+        /// </summary>
+        /// <param name="value">Value to format.</param>
+        /// <param name="fractionDigits">Number of fractional digits to display.</param>
+        /// <returns>Formatted number.</returns>
+        public static string FormatNumber(float value, int fractionDigits) => value.ToString("N" + fractionDigits, NumberFormat);
+    }
+}
@@ -0,0 +1,23 @@
+// Jest configuration for UI component tests; cs2 game modules are replaced with the mocks in test/mocks.
+module.exports = {
+  roots: ["<rootDir>/test"],
+  testEnvironment: "node",
+  testRegex: "\\.test\\.tsx?$",
+  setupFiles: ["<rootDir>/test/setup.ts"],
+  transform: {
+    "^.+\\.(t|j)sx?$": ["@swc/jest", {
+      jsc: {
+        parser: { syntax: "typescript", tsx: true },
+        transform: { react: { runtime: "automatic" } },
+      },
+    }],
+  },
+  moduleNameMapper: {
+    "^cs2/api$": "<rootDir>/test/mocks/api.ts",
+    "^cs2/l10n$": "<rootDir>/test/mocks/l10n.ts",
+    "^cs2/ui$": "<rootDir>/test/mocks/ui.tsx",
+    "^cs2/input$": "<rootDir>/test/mocks/input.tsx",
+    "^cs2/bindings$": "<rootDir>/test/mocks/bindings.ts",
+    "^mods/(.*)$": "<rootDir>/src/mods/$1",
+  },
+};
@@ -1,14 +1,14 @@
 import { ModRegistrar } from "cs2/modding";
 import { LineToolOptionsComponent } from "mods/LineToolOptions";
 import { ToolOptionsVisibility } from "mods/ToolOptionsVisibility";
+import { modulePaths, tryExtend } from "mods/Compatibility";
 
 const register: ModRegistrar = (moduleRegistry) => {
     // Add line tool options to options panel.
-    moduleRegistry.extend("game-ui/game/components/tool-options/mouse-tool-options/mouse-tool-options.tsx", 'MouseToolOptions', LineToolOptionsComponent(moduleRegistry));
-
+    tryExtend(moduleRegistry, modulePaths.mouseToolOptions, 'MouseToolOptions', LineToolOptionsComponent(moduleRegistry));
 
     // Ensures tool option visibility.
-    moduleRegistry.extend("game-ui/game/components/tool-options/tool-options-panel.tsx", 'useToolOptionsVisible', ToolOptionsVisibility);
+    tryExtend(moduleRegistry, modulePaths.toolOptionsPanel, 'useToolOptionsVisible', ToolOptionsVisibility);
 }
 
 export default register;
\ No newline at end of file
@@ -0,0 +1,277 @@
+import { bindValue, trigger, ValueBinding } from "cs2/api";
+
+// Binding group used by all Line Tool bindings (LineToolUISystem on the C# side).
+export const bindingGroup = "LineTool";
+
+// Trigger parameter schema; the type parameter is the trigger argument tuple, and the arity is the number of arguments sent to C#.
+export interface TriggerParams<A extends unknown[]> {
+    readonly arity: number;
+
+    // Type-only marker for the argument tuple.
+    readonly args?: A;
+}
+
+// Trigger with the given argument types.
+function params<A extends unknown[]>(arity: A["length"]): TriggerParams<A> {
+    return { arity: arity };
+}
+
+// Trigger with no arguments.
+const none: TriggerParams<[]> = params<[]>(0);
+
+// Value binding schema; each name must match a C# GetterValueBinding (or ValueBinding), and each value is the fallback used until C# provides one.
+export const valueSchema = {
+    // Boolean update bindings.
+    ShowModeRow: false,
+    PointModeEnabled: false,
+    StraightLineEnabled: false,
+    SimpleCurveEnabled: false,
+    CircleEnabled: false,
+    GridEnabled: false,
+    PolylineEnabled: false,
+    FollowNetworkEnabled: false,
+    FenceModeAvailable: false,
+    W2WModeAvailable: false,
+    FenceModeEnabled: false,
+    W2WModeEnabled: false,
+    RandomizationEnabled: false,
+    FollowTerrainEnabled: false,
+    FixedElevationEnabled: false,
+    ConstantSlopeEnabled: false,
+    LengthSnapEnabled: false,
+    FullLengthEnabled: false,
+    AbsoluteRotationEnabled: false,
+    RelativeRotationEnabled: false,
+    RandomRotationEnabled: false,
+
+    // Number update bindings.
+    Spacing: 0,
+    Rotation: 0,
+    SpacingVariation: 0,
+    OffsetVariation: 0,
+
+    // Random seed bindings.
+    RandomSeed: 0,
+    RandomSeedHistory: [] as number[],
+
+    // Count mode bindings.
+    CountModeEnabled: false,
+    PlacementCount: 0,
+    CalculatedSpacing: 0,
+
+    // Grid mode bindings.
+    GridRowSpacing: 0,
+    CalculatedGridRowSpacing: 0,
+    GridColumnCount: 0,
+    GridRowCount: 0,
+    GridColumnCountLocked: false,
+    GridRowCountLocked: false,
+    CurrentGridColumns: 0,
+    CurrentGridRows: 0,
+
+    // Parallel row bindings.
+    ParallelRowCount: 0,
+    ParallelRowSpacing: 0,
+    ParallelRowsStaggered: false,
+
+    // Follow-network mode bindings.
+    NetworkSideLeftEnabled: false,
+    NetworkSideRightEnabled: false,
+    NetworkSideBothEnabled: false,
+    NetworkOffset: 0,
+
+    // Circle mode bindings.
+    CircleArcAngle: 0,
+    CircleStartAngle: 0,
+    CircleStartAngleFixed: false,
+
+    // Elevation parameter bindings.
+    FixedElevationHeight: 0,
+    FixedElevationAbsolute: false,
+    SlopeStartHeight: 0,
+    SlopeStartHeightFixed: false,
+    SlopeEndHeight: 0,
+    SlopeEndHeightFixed: false,
+    SlopePercent: 0,
+    SlopeFixed: false,
+    CalculatedStartElevation: 0,
+    CalculatedEndElevation: 0,
+    CalculatedSlope: 0,
+
+    // Statistics bindings.
+    PreviewCount: 0,
+    PreviewLength: 0,
+    EffectiveSpacing: 0,
+    PreviewCost: 0,
+
+    // Tree age bindings.
+    TreeSelected: false,
+    AgeMask: 0,
+    AgeMixEnabled: false,
+    AgeWeights: [] as number[],
+
+    // Prefab mix bindings.
+    PrefabMixEnabled: false,
+    PrefabMixAlternating: false,
+    SelectedPrefabInMix: false,
+    PrefabMixNames: [] as string[],
+    PrefabMixWeights: [] as number[],
+
+    // Hotkey binding display texts, in hotkey index order.
+    Hotkeys: [] as string[],
+
+    // Preset bindings.
+    PresetNames: [] as string[],
+
+    // Layout import/export bindings.
+    LayoutMessage: "",
+    LayoutMessageIsError: false,
+
+    // Value formatting bindings.
+    ImperialUnits: false,
+    DecimalSeparator: ".",
+    GroupSeparator: ",",
+
+    // Collapsed section bindings.
+    CollapsedSections: [] as string[],
+
+    // UI compatibility bindings.
+    ToolID: "Line Tool",
+};
+
+// Trigger binding schema; each name must match a C# TriggerBinding with the same arguments.
+export const triggerSchema = {
+    // Mode and option trigger bindings.
+    SetPointMode: none,
+    SetStraightLineMode: none,
+    SetSimpleCurveMode: none,
+    SetCircleMode: none,
+    SetGridMode: none,
+    SetPolylineMode: none,
+    SetFollowNetworkMode: none,
+    ToggleFenceMode: none,
+    ToggleW2WMode: none,
+    ToggleRandomization: none,
+    UpdateRandomSeed: none,
+    CopyRandomSeed: none,
+    ToggleLengthSnap: none,
+    ToggleFullLength: none,
+    ToggleCountMode: none,
+    IncreaseCount: none,
+    DecreaseCount: none,
+    IncreaseSpacing: none,
+    DecreaseSpacing: none,
+    SetRelativeRotation: none,
+    SetAbsoluteRotation: none,
+    SetRandomRotation: none,
+    SetFollowTerrain: none,
+    SetFixedElevation: none,
+    SetConstantSlope: none,
+    IncreaseRotation: none,
+    DecreaseRotation: none,
+    IncreaseSpacingVariation: none,
+    DecreaseSpacingVariation: none,
+    IncreaseOffsetVariation: none,
+    DecreaseOffsetVariation: none,
+
+    // Value-setting trigger bindings.
+    SetRandomSeed: params<[randomSeed: number]>(1),
+    SetSpacing: params<[spacing: number]>(1),
+    SetRotation: params<[rotation: number]>(1),
+    SetSpacingVariation: params<[spacingVariation: number]>(1),
+    SetOffsetVariation: params<[offsetVariation: number]>(1),
+    SetPlacementCount: params<[placementCount: number]>(1),
+
+    // Grid mode trigger bindings.
+    IncreaseGridRowSpacing: none,
+    DecreaseGridRowSpacing: none,
+    SetGridRowSpacing: params<[gridRowSpacing: number]>(1),
+    ToggleGridColumnLock: none,
+    ToggleGridRowLock: none,
+    IncreaseGridColumns: none,
+    DecreaseGridColumns: none,
+    SetGridColumnCount: params<[gridColumnCount: number]>(1),
+    IncreaseGridRows: none,
+    DecreaseGridRows: none,
+    SetGridRowCount: params<[gridRowCount: number]>(1),
+
+    // Parallel row trigger bindings.
+    IncreaseParallelRows: none,
+    DecreaseParallelRows: none,
+    SetParallelRowCount: params<[parallelRowCount: number]>(1),
+    IncreaseParallelRowSpacing: none,
+    DecreaseParallelRowSpacing: none,
+    SetParallelRowSpacing: params<[parallelRowSpacing: number]>(1),
+    ToggleParallelRowStagger: none,
+
+    // Follow-network mode trigger bindings.
+    SetNetworkSideLeft: none,
+    SetNetworkSideRight: none,
+    SetNetworkSideBoth: none,
+    IncreaseNetworkOffset: none,
+    DecreaseNetworkOffset: none,
+    SetNetworkOffset: params<[networkOffset: number]>(1),
+
+    // Circle mode trigger bindings.
+    IncreaseCircleArcAngle: none,
+    DecreaseCircleArcAngle: none,
+    SetCircleArcAngle: params<[circleArcAngle: number]>(1),
+    ToggleCircleStartAngle: none,
+    IncreaseCircleStartAngle: none,
+    DecreaseCircleStartAngle: none,
+    SetCircleStartAngle: params<[circleStartAngle: number]>(1),
+
+    // Elevation parameter trigger bindings.
+    SetFixedElevationHeight: params<[fixedElevationHeight: number]>(1),
+    ToggleFixedElevationAbsolute: none,
+    SetSlopeStartHeight: params<[slopeStartHeight: number]>(1),
+    ToggleSlopeStartHeightFixed: none,
+    SetSlopeEndHeight: params<[slopeEndHeight: number]>(1),
+    ToggleSlopeEndHeightFixed: none,
+    SetSlopePercent: params<[slopePercent: number]>(1),
+    ToggleSlopeFixed: none,
+
+    // Tree age trigger bindings.
+    ToggleAge: params<[age: number]>(1),
+    ToggleAgeMix: none,
+    SetAgeWeight: params<[index: number, weight: number]>(2),
+
+    // Prefab mix trigger bindings.
+    TogglePrefabMix: none,
+    SetPrefabMixRandom: none,
+    SetPrefabMixAlternating: none,
+    AddToPrefabMix: none,
+    RemoveFromPrefabMix: params<[index: number]>(1),
+    SetPrefabMixWeight: params<[index: number, weight: number]>(2),
+
+    // Preset trigger bindings.
+    SavePreset: params<[name: string]>(1),
+    ApplyPreset: params<[index: number]>(1),
+    RenamePreset: params<[index: number, name: string]>(2),
+    DeletePreset: params<[index: number]>(1),
+
+    // Layout import/export trigger bindings.
+    ExportLayout: none,
+    ImportLayout: none,
+
+    // Collapsed section trigger bindings.
+    ToggleSectionCollapsed: params<[sectionName: string]>(1),
+
+    // UI compatibility trigger bindings.
+    ReportMissingUIModules: params<[missingModules: string]>(1),
+};
+
+export type ValueBindingName = keyof typeof valueSchema;
+export type TriggerName = keyof typeof triggerSchema;
+export type ValueBindings = { [K in ValueBindingName]: ValueBinding<(typeof valueSchema)[K]> };
+export type Triggers = { [K in TriggerName]: (typeof triggerSchema)[K] extends TriggerParams<infer A> ? (...args: A) => void : never };
+
+// Generated value bindings, by C# binding name.
+export const valueBindings: ValueBindings = Object.fromEntries(
+    Object.entries(valueSchema).map(([name, fallback]) => [name, bindValue(bindingGroup, name, fallback)])
+) as ValueBindings;
+
+// Generated trigger functions, by C# binding name; only the schema arguments are sent, so these can be used directly as event handlers.
+export const triggers: Triggers = Object.fromEntries(
+    Object.entries(triggerSchema).map(([name, schema]) => [name, (...args: unknown[]) => trigger(bindingGroup, name, ...args.slice(0, schema.arity))])
+) as Triggers;
@@ -0,0 +1,152 @@
+import { ModuleRegistry, ModuleRegistryExtend } from "cs2/modding";
+import { FOCUS_AUTO } from "cs2/input";
+import { Button, Tooltip } from "cs2/ui";
+import { PropsWithChildren, ReactNode } from "react";
+import { triggers } from "mods/Bindings";
+
+// Game UI module paths.
+export const modulePaths = {
+    toolButton: "game-ui/game/components/tool-options/tool-button/tool-button.tsx",
+    toolButtonTheme: "game-ui/game/components/tool-options/tool-button/tool-button.module.scss",
+    mouseToolOptions: "game-ui/game/components/tool-options/mouse-tool-options/mouse-tool-options.tsx",
+    mouseToolTheme: "game-ui/game/components/tool-options/mouse-tool-options/mouse-tool-options.module.scss",
+    focusKey: "game-ui/common/focus/focus-key.ts",
+    descriptionTooltipTheme: "game-ui/common/tooltip/description-tooltip/description-tooltip.module.scss",
+    toolOptionsPanel: "game-ui/game/components/tool-options/tool-options-panel.tsx",
+};
+
+// Resolved game UI components and themes, with fallbacks substituted for anything missing.
+export interface GameModules {
+    Section: any;
+    ToolButton: any;
+    FocusAuto: any;
+    toolButtonTheme: Record<string, string>;
+    mouseToolTheme: Record<string, string>;
+    descriptionTooltipTheme: Record<string, string>;
+
+    // Missing module paths (and exports), empty if everything resolved.
+    missing: string[];
+}
+
+// Fallback tool options section properties.
+interface FallbackSectionProps {
+    title?: ReactNode;
+    tooltip?: ReactNode;
+}
+
+// Fallback tool button properties (matching the game tool button properties used by Line Tool).
+interface FallbackToolButtonProps {
+    src: string;
+    tooltip?: ReactNode;
+    onSelect?: () => void;
+    selected?: boolean;
+    multiSelect?: boolean;
+    disabled?: boolean;
+    className?: string;
+    focusKey?: any;
+}
+
+// Fallback tool options section; a titled row of controls.
+const FallbackSection = (props: PropsWithChildren<FallbackSectionProps>) => (
+    <div style={{ display: "flex", flexDirection: "row", alignItems: "center", padding: "4rem 8rem" }}>
+        <div style={{ flex: 1 }}>{props.title}</div>
+        <div style={{ display: "flex", flexDirection: "row", alignItems: "center" }}>{props.children}</div>
+    </div>
+);
+
+// Fallback tool button, using the standard icon button.
+const FallbackToolButton = (props: FallbackToolButtonProps) => (
+    <Tooltip tooltip={props.tooltip} disabled={!props.tooltip}>
+        <Button
+            variant="icon"
+            src={props.src}
+            className={props.className}
+            selected={props.selected}
+            disabled={props.disabled}
+            onSelect={props.onSelect}
+            focusKey={props.focusKey}
+        />
+    </Tooltip>
+);
+
+// Class names required from each theme.
+const requiredClasses = {
+    toolButtonTheme: ["button"],
+    mouseToolTheme: ["numberField", "startButton", "endButton"],
+    descriptionTooltipTheme: ["title", "content"],
+};
+
+// Cached resolution result and missing paths that have already been reported.
+let resolvedModules: GameModules | undefined;
+const reportedPaths: Set<string> = new Set<string>();
+
+// Sends any newly missing module paths to the mod log.
+function reportMissing(missing: string[]) {
+    const unreported: string[] = missing.filter((path: string) => !reportedPaths.has(path));
+    if (unreported.length > 0) {
+        unreported.forEach((path: string) => reportedPaths.add(path));
+        triggers.ReportMissingUIModules(unreported.join(", "));
+    }
+}
+
+// Resolves a module export, recording it as missing if it isn't there.
+function resolveExport(moduleRegistry: ModuleRegistry, path: string, exportName: string, missing: string[]): any {
+    const result: any = moduleRegistry.registry.get(path)?.[exportName];
+    if (result === undefined || result === null) {
+        missing.push(path + " (" + exportName + ")");
+    }
+
+    return result;
+}
+
+// Resolves a theme, recording it as missing if it isn't there or is missing any required class names.
+function resolveTheme(moduleRegistry: ModuleRegistry, path: string, classNames: string[], missing: string[]): Record<string, string> {
+    const classes: Record<string, string> | undefined = moduleRegistry.registry.get(path)?.classes;
+    const missingClasses: string[] = classNames.filter((className: string) => typeof classes?.[className] !== "string");
+    if (missingClasses.length > 0) {
+        missing.push(path + " (" + missingClasses.join(", ") + ")");
+    }
+
+    return classes ?? {};
+}
+
+// Resolves the game UI modules used by Line Tool (once), substituting fallbacks for any that are missing and reporting them to the mod log.
+export function resolveGameModules(moduleRegistry: ModuleRegistry): GameModules {
+    if (!resolvedModules) {
+        const missing: string[] = [];
+        const Section: any = resolveExport(moduleRegistry, modulePaths.mouseToolOptions, "Section", missing);
+        const ToolButton: any = resolveExport(moduleRegistry, modulePaths.toolButton, "ToolButton", missing);
+        const FocusAuto: any = resolveExport(moduleRegistry, modulePaths.focusKey, "FOCUS_AUTO", missing);
+
+        resolvedModules = {
+            Section: typeof Section === "function" ? Section : FallbackSection,
+            ToolButton: typeof ToolButton === "function" ? ToolButton : FallbackToolButton,
+            FocusAuto: FocusAuto ?? FOCUS_AUTO,
+            toolButtonTheme: resolveTheme(moduleRegistry, modulePaths.toolButtonTheme, requiredClasses.toolButtonTheme, missing),
+            mouseToolTheme: resolveTheme(moduleRegistry, modulePaths.mouseToolTheme, requiredClasses.mouseToolTheme, missing),
+            descriptionTooltipTheme: resolveTheme(moduleRegistry, modulePaths.descriptionTooltipTheme, requiredClasses.descriptionTooltipTheme, missing),
+            missing: missing,
+        };
+
+        reportMissing(missing);
+    }
+
+    return resolvedModules;
+}
+
+// Extends a game UI module export if it exists, otherwise reporting it as missing; returns true if the extension was applied.
+export function tryExtend(moduleRegistry: ModuleRegistry, path: string, exportName: string, extension: ModuleRegistryExtend): boolean {
+    if (moduleRegistry.registry.get(path)?.[exportName] === undefined) {
+        reportMissing([path + " (" + exportName + ")"]);
+        return false;
+    }
+
+    try {
+        moduleRegistry.extend(path, exportName, extension);
+        return true;
+    }
+    catch {
+        reportMissing([path + " (" + exportName + ")"]);
+        return false;
+    }
+}
@@ -0,0 +1,36 @@
+import { ActiveFocusDiv, FocusKey, InputActionConsumer } from "cs2/input";
+import { CSSProperties, PropsWithChildren, useState } from "react";
+
+// Focusable value field properties.
+export interface FocusableFieldProps {
+    focusKey: FocusKey;
+    disabled?: boolean;
+    onIncrease: () => void;
+    onDecrease: () => void;
+}
+
+// Highlight shown while the field has controller or keyboard focus.
+const focusedStyle: CSSProperties = { outline: "2rem solid var(--accentColorNormal)", borderRadius: "3rem" };
+
+// Focus navigation wrapper for a value field; while focused, the value is stepped up or down with the D-pad or stick.
+export const FocusableField = (props: PropsWithChildren<FocusableFieldProps>) => {
+    const [focused, setFocused] = useState<boolean>(false);
+
+    // Positive values step up, negative values step down.
+    function ChangeValue(value: number) {
+        if (value > 0) {
+            props.onIncrease();
+        }
+        else if (value < 0) {
+            props.onDecrease();
+        }
+    }
+
+    return (
+        <ActiveFocusDiv focusKey={props.focusKey} debugName={String(props.focusKey)} onFocusChange={setFocused} style={focused ? focusedStyle : undefined}>
+            <InputActionConsumer actions={{ "Change Tool Option": ChangeValue }} disabled={props.disabled}>
+                {props.children}
+            </InputActionConsumer>
+        </ActiveFocusDiv>
+    );
+};
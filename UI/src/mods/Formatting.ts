@@ -0,0 +1,40 @@
+// Value display settings, following the game's unit system and active locale.
+export interface ValueFormat {
+    imperial: boolean;
+    decimalSeparator: string;
+    groupSeparator: string;
+}
+
+// Feet per metre (must match UnitFormatting.FeetPerMetre).
+export const feetPerMetre = 3.28084;
+
+// Display length units per metre for the given format (entry in number fields is in display units).
+export function lengthScale(format: ValueFormat): number {
+    return format.imperial ? feetPerMetre : 1;
+}
+
+// Formats a number with the given number of fractional digits, using the locale separators.
+export function formatNumber(value: number, fractionDigits: number, format: ValueFormat): string {
+    const digits: string = Math.abs(value).toFixed(fractionDigits);
+    const [integerPart, fractionPart] = digits.split(".");
+    const grouped: string = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, format.groupSeparator);
+
+    // Don't show a sign for values that round to zero.
+    const sign: string = value < 0 && parseFloat(digits) !== 0 ? "-" : "";
+    return sign + grouped + (fractionPart ? format.decimalSeparator + fractionPart : "");
+}
+
+// Formats a length (in metres) for display, in metres or feet as set by the game's unit system.
+export function formatLength(metres: number, fractionDigits: number, format: ValueFormat): string {
+    return formatNumber(metres * lengthScale(format), fractionDigits, format) + (format.imperial ? " ft" : " m");
+}
+
+// Formats an angle (in degrees) for display.
+export function formatAngle(degrees: number, format: ValueFormat): string {
+    return formatNumber(degrees, 0, format) + "°";
+}
+
+// Formats a percentage for display.
+export function formatPercentage(percent: number, fractionDigits: number, format: ValueFormat): string {
+    return formatNumber(percent, fractionDigits, format) + "%";
+}
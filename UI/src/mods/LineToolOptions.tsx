@@ -1,138 +1,268 @@
 import { useLocalization } from "cs2/l10n";
 import { ModuleRegistry } from "cs2/modding";
-import { bindValue, trigger, useValue } from "cs2/api";
-import {Tooltip} from "cs2/ui";
-
-// Boolean update bindings.
-export const showModeRow$ = bindValue<boolean>('LineTool', 'ShowModeRow');
-export const pointModeEnabled$ = bindValue<boolean>('LineTool', 'PointModeEnabled');
-export const straightLineModeEnabled$ = bindValue<boolean>('LineTool', 'StraightLineEnabled');
-export const simpleCurveModeEnabled$ = bindValue<boolean>('LineTool', 'SimpleCurveEnabled');
-export const circleModeEnabled$ = bindValue<boolean>('LineTool', 'CircleEnabled');
-export const gridModeEnabled$ = bindValue<boolean>('LineTool', 'GridEnabled');
-export const fenceModeAvailable$ = bindValue<boolean>('LineTool', 'FenceModeAvailable');
-export const w2wModeAvailable$ = bindValue<boolean>('LineTool', 'W2WModeAvailable');
-export const fenceModeEnabled$ = bindValue<boolean>('LineTool', 'FenceModeEnabled');
-export const w2wModeEnabled$ = bindValue<boolean>('LineTool', 'W2WModeEnabled');
-export const randomizationEnabled$ = bindValue<boolean>('LineTool', 'RandomizationEnabled');
-export const followTerrainEnabled$ = bindValue<boolean>('LineTool', 'FollowTerrainEnabled');
-export const fixedElevationEnabled$ = bindValue<boolean>('LineTool', 'FixedElevationEnabled');
-export const constantSlopeEnabled$ = bindValue<boolean>('LineTool', 'ConstantSlopeEnabled');
-export const lengthSnapEnabled$ = bindValue<boolean>('LineTool', 'LengthSnapEnabled');
-export const fullLengthEnabled$ = bindValue<boolean>('LineTool', 'FullLengthEnabled');
-export const absoluteRotationEnabled$ = bindValue<boolean>('LineTool', 'AbsoluteRotationEnabled');
-
-export const relativeRotationEnabled$ = bindValue<boolean>('LineTool', 'RelativeRotationEnabled');
-
-export const randomRotationEnabled$ = bindValue<boolean>('LineTool', 'RandomRotationEnabled');
-
-// Number update bindings.
-export const Spacing$ = bindValue<Number>('LineTool', 'Spacing');
-export const Rotation$ = bindValue<Number>('LineTool', 'Rotation');
-export const SpacingVariation$ = bindValue<Number>('LineTool', 'SpacingVariation');
-export const OffsetVariation$ = bindValue<Number>('LineTool', 'OffsetVariation');
-
-// Trigger bindings.
-export function pointModeClick() { trigger("LineTool", "SetPointMode"); }
-export function straightLineModeClick() { trigger("LineTool", "SetStraightLineMode"); }
-export function simpleCurveModeClick() { trigger("LineTool", "SetSimpleCurveMode"); }
-export function circleModeClick() { trigger("LineTool", "SetCircleMode"); }
-export function gridModeClick() { trigger("LineTool", "SetGridMode"); }
-export function fenceModeClick() { trigger("LineTool", "ToggleFenceMode"); }
-export function w2wModeClick() { trigger("LineTool", "ToggleW2WMode"); }
-export function randomizationClick() { trigger("LineTool", "ToggleRandomization"); }
-export function changeRandomClick() { trigger("LineTool", "UpdateRandomSeed"); }
-export function lengthSnapClick() { trigger("LineTool", "ToggleLengthSnap"); }
-export function fullLengthClick() { trigger("LineTool", "ToggleFullLength"); }
-export function spacingUpClick() { trigger("LineTool", "IncreaseSpacing"); }
-export function spacingDownClick() { trigger("LineTool", "DecreaseSpacing"); }
-export function relativeRotationClick() { trigger("LineTool", "SetRelativeRotation"); }
-export function absoluteRotationClick() { trigger("LineTool", "SetAbsoluteRotation"); }
-export function randomRotationClick() { trigger("LineTool", "SetRandomRotation"); }
-export function followTerrainClick() { trigger("LineTool", "SetFollowTerrain"); }
-export function fixedElevationClick() { trigger("LineTool", "SetFixedElevation"); }
-export function constantSlopeClick() { trigger("LineTool", "SetConstantSlope"); }
-export function rotationUpClick() { trigger("LineTool", "IncreaseRotation"); }
-export function rotationDownClick() { trigger("LineTool", "DecreaseRotation"); }
-export function spacingVariationUpClick() { trigger("LineTool", "IncreaseSpacingVariation"); }
-export function spacingVariationDownClick() { trigger("LineTool", "DecreaseSpacingVariation"); }
-export function offsetVariationUpClick() { trigger("LineTool", "IncreaseOffsetVariation"); }
-export function offsetVariationDownClick() { trigger("LineTool", "DecreaseOffsetVariation"); }
-
-export const LineToolOptionsComponent = (moduleRegistry: ModuleRegistry) => (Component: any) => {
-    return (props: any) => {
-        // Component paths.
-        const toolButtonModule = moduleRegistry.registry.get("game-ui/game/components/tool-options/tool-button/tool-button.tsx");
-        const toolButtonTheme = moduleRegistry.registry.get("game-ui/game/components/tool-options/tool-button/tool-button.module.scss")?.classes;
-        const toolMouseModule = moduleRegistry.registry.get("game-ui/game/components/tool-options/mouse-tool-options/mouse-tool-options.tsx");
-        const mouseToolTheme = moduleRegistry.registry.get("game-ui/game/components/tool-options/mouse-tool-options/mouse-tool-options.module.scss")?.classes;
-        const focusKey = moduleRegistry.registry.get("game-ui/common/focus/focus-key.ts");
-        const descriptionTooltipTheme = moduleRegistry.registry.get("game-ui/common/tooltip/description-tooltip/description-tooltip.module.scss")?.classes;
-        
-        // Components.
-        const Section: any = toolMouseModule?.Section;
-        const ToolButton: any = toolButtonModule?.ToolButton;
-        const FocusDisabled: any = focusKey?.FOCUS_DISABLED;
+import { useValue } from "cs2/api";
+import {Button, Tooltip} from "cs2/ui";
+import { Fragment, KeyboardEvent, useState } from "react";
+import { AutoNavigationScope, NavigationDirection } from "cs2/input";
+import { NumberField } from "mods/NumberField";
+import { FocusableField } from "mods/FocusableField";
+import { formatAngle, formatLength, formatNumber, formatPercentage, lengthScale, ValueFormat } from "mods/Formatting";
+import { GameModules, resolveGameModules } from "mods/Compatibility";
+import { triggers, valueBindings } from "mods/Bindings";
+
+// Hotkey indexes (must match the order of ModSettings.HotkeyActionNames).
+export const hotkeyIndex = {
+    PointMode: 0,
+    StraightLineMode: 1,
+    SimpleCurveMode: 2,
+    CircleMode: 3,
+    GridMode: 4,
+    PolylineMode: 5,
+    FollowNetworkMode: 6,
+    ToggleFenceMode: 7,
+    ToggleW2WMode: 8,
+    ToggleRandomization: 9,
+    IncreaseSpacing: 10,
+    DecreaseSpacing: 11,
+    IncreaseRotation: 12,
+    DecreaseRotation: 13,
+    CycleElevationMode: 14,
+};
+
+// Tree ages, in age mask bit order.
+const treeAges = [
+    { name: "Child", icon: "Media/Tools/Tree Age/Child.svg" },
+    { name: "Teen", icon: "Media/Tools/Tree Age/Teen.svg" },
+    { name: "Adult", icon: "Media/Tools/Tree Age/Adult.svg" },
+    { name: "Elderly", icon: "Media/Tools/Tree Age/Elderly.svg" },
+    { name: "Dead", icon: "Media/Tools/Tree Age/Dead.svg" },
+];
+
+export const LineToolOptionsComponent = (moduleRegistry: ModuleRegistry) => {
+    // Game components and themes (with fallbacks for any that are missing), resolved at registration rather than when rendering.
+    const gameModules: GameModules = resolveGameModules(moduleRegistry);
+    return (Component: any) => (props: any) => {
+        const { Section, ToolButton, FocusAuto, toolButtonTheme, mouseToolTheme, descriptionTooltipTheme } = gameModules;
         
         // General.
         const { translate } = useLocalization();
         const { children, ...otherProps } = props || {};
 
         // Boolean update bindings.
-        const showModeRow: boolean = useValue(showModeRow$);
-        const pointModeEnabled: boolean = useValue(pointModeEnabled$);
-        const straightLineModeEnabled: boolean = useValue(straightLineModeEnabled$);
-        const simpleCurveModeEnabled: boolean = useValue(simpleCurveModeEnabled$);
-        const circleModeEnabled: boolean = useValue(circleModeEnabled$);
-        const gridModeEnabled: boolean = useValue(gridModeEnabled$);
-        const fenceModeEnabled: boolean = useValue(fenceModeEnabled$);
-        const w2wModeEnabled: boolean = useValue(w2wModeEnabled$);
-        const randomizationEnabled: boolean = useValue(randomizationEnabled$);
-        const followTerrainEnabled: boolean = useValue(followTerrainEnabled$);
-        const fixedElevationEnabled: boolean = useValue(fixedElevationEnabled$);
-        const constantSlopeEnabled: boolean = useValue(constantSlopeEnabled$);
-        const lengthSnapEnabled: boolean = useValue(lengthSnapEnabled$);
-        const fullLengthEnabled: boolean = useValue(fullLengthEnabled$);
-        const relativeRotationEnabled: boolean = useValue(relativeRotationEnabled$);
-        const absoluteRotationEnabled: boolean = useValue(absoluteRotationEnabled$);
-        const randomRotationEnabled: boolean = useValue(randomRotationEnabled$);
-        const fenceModeAvailable: boolean = useValue(fenceModeAvailable$);
-        const w2wModeAvailable: boolean = useValue(w2wModeAvailable$);
+        const showModeRow: boolean = useValue(valueBindings.ShowModeRow);
+        const pointModeEnabled: boolean = useValue(valueBindings.PointModeEnabled);
+        const straightLineModeEnabled: boolean = useValue(valueBindings.StraightLineEnabled);
+        const simpleCurveModeEnabled: boolean = useValue(valueBindings.SimpleCurveEnabled);
+        const circleModeEnabled: boolean = useValue(valueBindings.CircleEnabled);
+        const gridModeEnabled: boolean = useValue(valueBindings.GridEnabled);
+        const polylineModeEnabled: boolean = useValue(valueBindings.PolylineEnabled);
+        const followNetworkModeEnabled: boolean = useValue(valueBindings.FollowNetworkEnabled);
+        const fenceModeEnabled: boolean = useValue(valueBindings.FenceModeEnabled);
+        const w2wModeEnabled: boolean = useValue(valueBindings.W2WModeEnabled);
+        const randomizationEnabled: boolean = useValue(valueBindings.RandomizationEnabled);
+        const followTerrainEnabled: boolean = useValue(valueBindings.FollowTerrainEnabled);
+        const fixedElevationEnabled: boolean = useValue(valueBindings.FixedElevationEnabled);
+        const constantSlopeEnabled: boolean = useValue(valueBindings.ConstantSlopeEnabled);
+        const lengthSnapEnabled: boolean = useValue(valueBindings.LengthSnapEnabled);
+        const fullLengthEnabled: boolean = useValue(valueBindings.FullLengthEnabled);
+        const relativeRotationEnabled: boolean = useValue(valueBindings.RelativeRotationEnabled);
+        const absoluteRotationEnabled: boolean = useValue(valueBindings.AbsoluteRotationEnabled);
+        const randomRotationEnabled: boolean = useValue(valueBindings.RandomRotationEnabled);
+        const fenceModeAvailable: boolean = useValue(valueBindings.FenceModeAvailable);
+        const w2wModeAvailable: boolean = useValue(valueBindings.W2WModeAvailable);
 
         // Number update bindings.
-        const Spacing: Number = useValue(Spacing$);
-        const Rotation: Number = useValue(Rotation$);
-        const SpacingVariation: Number = useValue(SpacingVariation$);
-        const OffsetVariation: Number = useValue(OffsetVariation$);
+        const Spacing: number = useValue(valueBindings.Spacing);
+        const Rotation: number = useValue(valueBindings.Rotation);
+        const SpacingVariation: number = useValue(valueBindings.SpacingVariation);
+        const OffsetVariation: number = useValue(valueBindings.OffsetVariation);
+
+        // Random seed bindings.
+        const RandomSeed: number = useValue(valueBindings.RandomSeed);
+        const randomSeedHistory: number[] = useValue(valueBindings.RandomSeedHistory);
+
+        // Count mode bindings.
+        const countModeEnabled: boolean = useValue(valueBindings.CountModeEnabled);
+        const PlacementCount: number = useValue(valueBindings.PlacementCount);
+        const CalculatedSpacing: number = useValue(valueBindings.CalculatedSpacing);
+
+        // Grid mode bindings.
+        const GridRowSpacing: number = useValue(valueBindings.GridRowSpacing);
+        const CalculatedGridRowSpacing: number = useValue(valueBindings.CalculatedGridRowSpacing);
+        const GridColumnCount: number = useValue(valueBindings.GridColumnCount);
+        const GridRowCount: number = useValue(valueBindings.GridRowCount);
+        const gridColumnCountLocked: boolean = useValue(valueBindings.GridColumnCountLocked);
+        const gridRowCountLocked: boolean = useValue(valueBindings.GridRowCountLocked);
+        const CurrentGridColumns: number = useValue(valueBindings.CurrentGridColumns);
+        const CurrentGridRows: number = useValue(valueBindings.CurrentGridRows);
+
+        // Parallel row bindings.
+        const ParallelRowCount: number = useValue(valueBindings.ParallelRowCount);
+        const ParallelRowSpacing: number = useValue(valueBindings.ParallelRowSpacing);
+        const parallelRowsStaggered: boolean = useValue(valueBindings.ParallelRowsStaggered);
+
+        // Follow-network mode bindings.
+        const networkSideLeftEnabled: boolean = useValue(valueBindings.NetworkSideLeftEnabled);
+        const networkSideRightEnabled: boolean = useValue(valueBindings.NetworkSideRightEnabled);
+        const networkSideBothEnabled: boolean = useValue(valueBindings.NetworkSideBothEnabled);
+        const NetworkOffset: number = useValue(valueBindings.NetworkOffset);
+
+        // Circle mode bindings.
+        const CircleArcAngle: number = useValue(valueBindings.CircleArcAngle);
+        const CircleStartAngle: number = useValue(valueBindings.CircleStartAngle);
+        const circleStartAngleFixed: boolean = useValue(valueBindings.CircleStartAngleFixed);
+
+        // Elevation parameter bindings.
+        const FixedElevationHeight: number = useValue(valueBindings.FixedElevationHeight);
+        const fixedElevationAbsolute: boolean = useValue(valueBindings.FixedElevationAbsolute);
+        const SlopeStartHeight: number = useValue(valueBindings.SlopeStartHeight);
+        const slopeStartHeightFixed: boolean = useValue(valueBindings.SlopeStartHeightFixed);
+        const SlopeEndHeight: number = useValue(valueBindings.SlopeEndHeight);
+        const slopeEndHeightFixed: boolean = useValue(valueBindings.SlopeEndHeightFixed);
+        const SlopePercent: number = useValue(valueBindings.SlopePercent);
+        const slopeFixed: boolean = useValue(valueBindings.SlopeFixed);
+        const CalculatedStartElevation: number = useValue(valueBindings.CalculatedStartElevation);
+        const CalculatedEndElevation: number = useValue(valueBindings.CalculatedEndElevation);
+        const CalculatedSlope: number = useValue(valueBindings.CalculatedSlope);
+
+        // Statistics bindings.
+        const PreviewCount: number = useValue(valueBindings.PreviewCount);
+        const PreviewLength: number = useValue(valueBindings.PreviewLength);
+        const EffectiveSpacing: number = useValue(valueBindings.EffectiveSpacing);
+        const PreviewCost: number = useValue(valueBindings.PreviewCost);
+
+        // Tree age bindings.
+        const treeSelected: boolean = useValue(valueBindings.TreeSelected);
+        const ageMask: number = useValue(valueBindings.AgeMask);
+        const ageMixEnabled: boolean = useValue(valueBindings.AgeMixEnabled);
+        const ageWeights: number[] = useValue(valueBindings.AgeWeights);
+
+        // Prefab mix bindings.
+        const prefabMixEnabled: boolean = useValue(valueBindings.PrefabMixEnabled);
+        const prefabMixAlternating: boolean = useValue(valueBindings.PrefabMixAlternating);
+        const selectedPrefabInMix: boolean = useValue(valueBindings.SelectedPrefabInMix);
+        const prefabMixNames: string[] = useValue(valueBindings.PrefabMixNames);
+        const prefabMixWeights: number[] = useValue(valueBindings.PrefabMixWeights);
+
+        // Hotkey bindings.
+        const hotkeys: string[] = useValue(valueBindings.Hotkeys);
+
+        // Preset bindings.
+        const presetNames: string[] = useValue(valueBindings.PresetNames);
+
+        // Layout import/export bindings.
+        const layoutMessage: string = useValue(valueBindings.LayoutMessage);
+        const layoutMessageIsError: boolean = useValue(valueBindings.LayoutMessageIsError);
+
+        // Collapsed section bindings.
+        const collapsedSections: string[] = useValue(valueBindings.CollapsedSections);
+
+        // Preset name entry state; renamingPreset is the index of the preset being renamed, or -1 if saving a new preset.
+        const [presetName, setPresetName] = useState<string>("");
+        const [renamingPreset, setRenamingPreset] = useState<number>(-1);
+
+        // Spacing is calculated (and can't be set directly) in count mode, or when the grid column count is locked.
+        const spacingLocked: boolean = countModeEnabled || (gridModeEnabled && gridColumnCountLocked);
+
+        // Value display format (game unit system and locale).
+        const valueFormat: ValueFormat = {
+            imperial: useValue(valueBindings.ImperialUnits),
+            decimalSeparator: useValue(valueBindings.DecimalSeparator),
+            groupSeparator: useValue(valueBindings.GroupSeparator),
+        };
+        const lengthUnits: number = lengthScale(valueFormat);
 
         // Number display strings.
-        const renderedSpacing: string = Spacing.toFixed(1).toString() + " m";
-        const renderedRotation: string = Rotation.toFixed(0).toString() + "°";
-        const renderedSpacingVariation: string = SpacingVariation.toFixed(1).toString() + " m";
-        const renderedOffsetVariation: string = OffsetVariation.toFixed(1).toString() + " m";
+        const renderedSpacing: string = formatLength(spacingLocked ? CalculatedSpacing : Spacing, 1, valueFormat);
+        const renderedRandomSeed: string = RandomSeed.toFixed(0).toString();
+        const renderedCount: string = formatNumber(PlacementCount, 0, valueFormat);
+        const renderedGridRowSpacing: string = formatLength(gridRowCountLocked ? CalculatedGridRowSpacing : GridRowSpacing, 1, valueFormat);
+        const renderedGridColumnCount: string = formatNumber(GridColumnCount, 0, valueFormat);
+        const renderedGridRowCount: string = formatNumber(GridRowCount, 0, valueFormat);
+        const renderedGridSize: string = CurrentGridColumns > 0 && CurrentGridRows > 0
+            ? formatNumber(CurrentGridRows, 0, valueFormat) + " × " + formatNumber(CurrentGridColumns, 0, valueFormat) + " = " + formatNumber(CurrentGridRows * CurrentGridColumns, 0, valueFormat)
+            : "-";
+        const renderedParallelRowCount: string = formatNumber(ParallelRowCount, 0, valueFormat);
+        const renderedParallelRowSpacing: string = formatLength(ParallelRowSpacing, 1, valueFormat);
+        const renderedNetworkOffset: string = formatLength(NetworkOffset, 1, valueFormat);
+        const renderedCircleArcAngle: string = formatAngle(CircleArcAngle, valueFormat);
+        const renderedCircleStartAngle: string = formatAngle(CircleStartAngle, valueFormat);
+        const renderedPreviewCount: string = formatNumber(PreviewCount, 0, valueFormat);
+        const renderedPreviewLength: string = formatLength(PreviewLength, 1, valueFormat);
+        const renderedPreviewSpacing: string = formatLength(spacingLocked || fullLengthEnabled ? CalculatedSpacing : EffectiveSpacing, 1, valueFormat);
+        const renderedPreviewCost: string = "¢" + formatNumber(PreviewCost, 0, valueFormat);
+        const renderedRotation: string = formatAngle(Rotation, valueFormat);
+        const renderedSpacingVariation: string = formatLength(SpacingVariation, 1, valueFormat);
+        const renderedOffsetVariation: string = formatLength(OffsetVariation, 1, valueFormat);
+        const renderedFixedElevationHeight: string = formatLength(FixedElevationHeight, 1, valueFormat);
+        const renderedFixedElevation: string = formatLength(CalculatedStartElevation, 1, valueFormat);
+        const renderedSlopeStartHeight: string = formatLength(slopeStartHeightFixed ? SlopeStartHeight : CalculatedStartElevation, 1, valueFormat);
+        const renderedSlopeEndHeight: string = formatLength(slopeEndHeightFixed ? SlopeEndHeight : CalculatedEndElevation, 1, valueFormat);
+        const renderedSlope: string = formatPercentage(slopeFixed ? SlopePercent : CalculatedSlope, 1, valueFormat);
 
-        // Titled tooltip generator.
-        function  TitledTooltip (titleKey: string, contentKey: string): JSX.Element {
+        // Tooltip hotkey line; empty if no hotkey is given or the hotkey is unbound.
+        function HotkeyLine(hotkey?: number): JSX.Element {
+            const hotkeyText: string | undefined = hotkey === undefined ? undefined : hotkeys[hotkey];
+            if (hotkeyText) {
+                return (
+                    <>
+                        <div className={descriptionTooltipTheme.content}> </div>
+                        <div className={descriptionTooltipTheme.content}>{translate("LINETOOL.Hotkey")}: {hotkeyText}</div>
+                    </>
+                )
+            }
+
+            return (<></>)
+        }
+
+        // Titled tooltip generator, with optional hotkey index.
+        function  TitledTooltip (titleKey: string, contentKey: string, hotkey?: number): JSX.Element {
             return (
                 <>
                     <div className={descriptionTooltipTheme.title}>{translate(titleKey)}</div>
                     <div className={descriptionTooltipTheme.content}>{translate(contentKey)}</div>
+                    {HotkeyLine(hotkey)}
                 </>
             )
         }
         
-        // Two-paragraph titled tooltip generator.
-        function  TitledParaTooltip (titleKey: string, firstParaKey: string, secondParaKey: string): JSX.Element {
+        // Two-paragraph titled tooltip generator, with optional hotkey index.
+        function  TitledParaTooltip (titleKey: string, firstParaKey: string, secondParaKey: string, hotkey?: number): JSX.Element {
             return (
                 <>
                     <div className={descriptionTooltipTheme.title}>{translate(titleKey)}</div>
                     <div className={descriptionTooltipTheme.content}>{translate(firstParaKey)}</div>
                     <div className={descriptionTooltipTheme.content}> </div>
                     <div className={descriptionTooltipTheme.content}>{translate(secondParaKey)}</div>
+                    {HotkeyLine(hotkey)}
                 </>
             )
         }
         
+        // Collapsible section header row, with a compact toggle to show or hide the section's rows.
+        function FoldHeader(name: string): JSX.Element {
+            const collapsed: boolean = collapsedSections.includes(name);
+            return (
+                <Section title={translate("LINETOOL.Fold" + name)}>
+                    <ToolButton
+                        className={toolButtonTheme.button}
+                        src={collapsed ? "coui://uil/Standard/ArrowDownThickStroke.svg" : "coui://uil/Standard/ArrowUpThickStroke.svg"}
+                        tooltip={translate(collapsed ? "LINETOOL.ExpandSection" : "LINETOOL.CollapseSection")}
+                        onSelect={() => triggers.ToggleSectionCollapsed(name)}
+                        selected={false}
+                        multiSelect={false}
+                        disabled={false}
+                        focusKey={FocusAuto}
+                    />
+                </Section>
+            )
+        }
+
+        // Collapsible section rows; empty if the section is collapsed.
+        function Foldable(name: string, content: JSX.Element): JSX.Element {
+            return collapsedSections.includes(name) ? (<></>) : content;
+        }
+
         // Fence mode button.
         function FenceModeButton(): JSX.Element {
             // Only visible if fence mode is available.
@@ -141,12 +271,12 @@ export const LineToolOptionsComponent = (moduleRegistry: ModuleRegistry) => (Com
                     <ToolButton
                         className={toolButtonTheme.button}
                         src={"coui://uil/Standard/Fence.svg"}
-                        tooltip={TitledTooltip("LINETOOL.FenceMode", "LINETOOL_DESCRIPTION.FenceMode")}
-                        onSelect={fenceModeClick}
+                        tooltip={TitledTooltip("LINETOOL.FenceMode", "LINETOOL_DESCRIPTION.FenceMode", hotkeyIndex.ToggleFenceMode)}
+                        onSelect={triggers.ToggleFenceMode}
                         selected={fenceModeAvailable && fenceModeEnabled}
                         multiSelect={false}
                         disabled={!fenceModeAvailable}
-                        focusKey={FocusDisabled}
+                        focusKey={FocusAuto}
                     />
                 )
             }
@@ -164,12 +294,12 @@ export const LineToolOptionsComponent = (moduleRegistry: ModuleRegistry) => (Com
                     <ToolButton
                         className={toolButtonTheme.button}
                         src={"coui://uil/Standard/BoxesWallToWall.svg"}
-                        tooltip={TitledTooltip("LINETOOL.W2WMode", "LINETOOL_DESCRIPTION.W2WMode")}
-                        onSelect={w2wModeClick}
+                        tooltip={TitledTooltip("LINETOOL.W2WMode", "LINETOOL_DESCRIPTION.W2WMode", hotkeyIndex.ToggleW2WMode)}
+                        onSelect={triggers.ToggleW2WMode}
                         selected={w2wModeAvailable && w2wModeEnabled}
                         multiSelect={false}
                         disabled={!w2wModeAvailable}
-                        focusKey={FocusDisabled}
+                        focusKey={FocusAuto}
                     />
                 )
             }
@@ -179,269 +309,1353 @@ export const LineToolOptionsComponent = (moduleRegistry: ModuleRegistry) => (Com
             }
         }
 
+        // Saves or renames a preset using the entered preset name.
+        function SubmitPresetName() {
+            if (presetName.trim().length > 0) {
+                if (renamingPreset >= 0) {
+                    triggers.RenamePreset(renamingPreset, presetName);
+                }
+                else {
+                    triggers.SavePreset(presetName);
+                }
+            }
+
+            setPresetName("");
+            setRenamingPreset(-1);
+        }
+
+        // Preset name entry keyboard handling; enter submits, escape cancels.
+        function PresetNameKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+            if (e.key === "Enter") {
+                SubmitPresetName();
+            }
+            else if (e.key === "Escape") {
+                setPresetName("");
+                setRenamingPreset(-1);
+            }
+
+            e.stopPropagation();
+        }
+
+        // Preset rows.
+        function PresetSections(): JSX.Element {
+            return (
+                <>
+                    <Section title={translate("LINETOOL.Presets")}>
+                        <Tooltip tooltip={translate(renamingPreset >= 0 ? "LINETOOL_DESCRIPTION.RenamePreset" : "LINETOOL_DESCRIPTION.SavePreset")}>
+                            <input
+                                type="text"
+                                className={mouseToolTheme.numberField}
+                                value={presetName}
+                                placeholder={translate("LINETOOL.PresetName") ?? undefined}
+                                onChange={(e) => setPresetName(e.target.value)}
+                                onKeyDown={PresetNameKeyDown}
+                            />
+                        </Tooltip>
+                        <ToolButton
+                            className={toolButtonTheme.button}
+                            src={"coui://uil/Standard/DiskSave.svg"}
+                            tooltip={renamingPreset >= 0 ? TitledTooltip("LINETOOL.RenamePreset", "LINETOOL_DESCRIPTION.RenamePreset") : TitledTooltip("LINETOOL.SavePreset", "LINETOOL_DESCRIPTION.SavePreset")}
+                            onSelect={SubmitPresetName}
+                            selected={false}
+                            multiSelect={false}
+                            disabled={presetName.trim().length == 0}
+                            focusKey={FocusAuto}
+                        />
+                    </Section>
+                    {presetNames.map((name: string, index: number) => (
+                        <Section title={name} key={name}>
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/Checkmark.svg"}
+                                tooltip={TitledTooltip("LINETOOL.ApplyPreset", "LINETOOL_DESCRIPTION.ApplyPreset")}
+                                onSelect={() => triggers.ApplyPreset(index)}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/PencilPaper.svg"}
+                                tooltip={TitledTooltip("LINETOOL.RenamePreset", "LINETOOL_DESCRIPTION.RenamePreset")}
+                                onSelect={() => { setRenamingPreset(index); setPresetName(name); }}
+                                selected={renamingPreset == index}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/Trash.svg"}
+                                tooltip={TitledTooltip("LINETOOL.DeletePreset", "LINETOOL_DESCRIPTION.DeletePreset")}
+                                onSelect={() => { triggers.DeletePreset(index); setRenamingPreset(-1); }}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                    ))}
+                </>
+            )
+        }
+
+        // Degraded UI notice row; only shown if any game UI modules are missing.
+        function DegradedSections(): JSX.Element {
+            if (gameModules.missing.length == 0) {
+                return (<></>)
+            }
+
+            return (
+                <Section title={translate("LINETOOL.UIDegraded")}>
+                    <Tooltip tooltip={
+                        <>
+                            <div className={descriptionTooltipTheme.content}>{translate("LINETOOL_DESCRIPTION.UIDegraded")}</div>
+                            {gameModules.missing.map((path: string) => (
+                                <div className={descriptionTooltipTheme.content} key={path}>{path}</div>
+                            ))}
+                        </>
+                    }>
+                        <div className={mouseToolTheme.numberField}>?</div>
+                    </Tooltip>
+                </Section>
+            )
+        }
+
+        // Layout import/export rows.
+        function LayoutSections(): JSX.Element {
+            return (
+                <>
+                    <Section title={translate("LINETOOL.Layout")}
+                             tooltip={translate("LINETOOL_DESCRIPTION.Layout")}>
+                        <ToolButton
+                            className={toolButtonTheme.button}
+                            src={"coui://uil/Standard/Copy.svg"}
+                            tooltip={TitledTooltip("LINETOOL.ExportLayout", "LINETOOL_DESCRIPTION.ExportLayout")}
+                            onSelect={triggers.ExportLayout}
+                            selected={false}
+                            multiSelect={false}
+                            disabled={false}
+                            focusKey={FocusAuto}
+                        />
+                        <ToolButton
+                            className={toolButtonTheme.button}
+                            src={"coui://uil/Standard/ArrowDownThickStroke.svg"}
+                            tooltip={TitledTooltip("LINETOOL.ImportLayout", "LINETOOL_DESCRIPTION.ImportLayout")}
+                            onSelect={triggers.ImportLayout}
+                            selected={false}
+                            multiSelect={false}
+                            disabled={false}
+                            focusKey={FocusAuto}
+                        />
+                    </Section>
+                    {layoutMessage !== "" &&
+                        <Section title={translate(layoutMessageIsError ? "LINETOOL.LayoutError" : "LINETOOL.LayoutStatus")}>
+                            <div style={layoutMessageIsError ? { color: "var(--negativeColor)" } : undefined}>{translate(layoutMessage)}</div>
+                        </Section>
+                    }
+                </>
+            )
+        }
+
+        // Random seed rows.
+        function RandomSeedSections(): JSX.Element {
+            return (
+                <>
+                    <Section title={translate("LINETOOL.RandomSeed")}
+                             tooltip={translate("LINETOOL_DESCRIPTION.RandomSeed")}>
+                        <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.RandomSeed")}>
+                            <NumberField
+                                className={mouseToolTheme.numberField}
+                                value={RandomSeed}
+                                rendered={renderedRandomSeed}
+                                min={1}
+                                max={2147483647}
+                                fractionDigits={0}
+                                onCommit={triggers.SetRandomSeed}
+                            />
+                        </Tooltip>
+                        <ToolButton
+                            className={toolButtonTheme.button}
+                            src={"coui://uil/Standard/Copy.svg"}
+                            tooltip={TitledTooltip("LINETOOL.CopyRandomSeed", "LINETOOL_DESCRIPTION.CopyRandomSeed")}
+                            onSelect={triggers.CopyRandomSeed}
+                            selected={false}
+                            multiSelect={false}
+                            disabled={false}
+                            focusKey={FocusAuto}
+                        />
+                    </Section>
+                    {randomSeedHistory.length > 0 &&
+                        <Section title={translate("LINETOOL.RandomSeedHistory")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.RandomSeedHistory")}>
+                            {randomSeedHistory.map((seed: number) => (
+                                <Button
+                                    key={seed}
+                                    variant="flat"
+                                    className={mouseToolTheme.numberField}
+                                    onSelect={() => triggers.SetRandomSeed(seed)}
+                                    focusKey={FocusAuto}
+                                >
+                                    {seed.toFixed(0)}
+                                </Button>
+                            ))}
+                        </Section>
+                    }
+                </>
+            )
+        }
+
+        // Count mode button.
+        function CountModeButton(): JSX.Element {
+            // Count mode isn't available in grid mode.
+            if (!gridModeEnabled) {
+                return (
+                    <ToolButton
+                        className={toolButtonTheme.button}
+                        src={"coui://uil/Standard/MeasureCount.svg"}
+                        tooltip={TitledTooltip("LINETOOL.CountMode", "LINETOOL_DESCRIPTION.CountMode")}
+                        onSelect={triggers.ToggleCountMode}
+                        selected={countModeEnabled}
+                        multiSelect={false}
+                        disabled={false}
+                        focusKey={FocusAuto}
+                    />
+                )
+            }
+            else {
+                // Grid mode - return empty.
+                return (<></>)
+            }
+        }
+
+        // Count row.
+        function CountSection(): JSX.Element {
+            // Only visible in count mode.
+            if (countModeEnabled) {
+                return (
+                    <Section title={translate("LINETOOL.Count")}
+                             tooltip={translate("LINETOOL_DESCRIPTION.Count")}>
+                        <ToolButton
+                            className={mouseToolTheme.startButton}
+                            src="coui://uil/Standard/ArrowDownThickStroke.svg"
+                            tooltip={TitledParaTooltip("LINETOOL.CountDown", "LINETOOL_DESCRIPTION.Count", "LINETOOL_DESCRIPTION.CountModifiers")}
+                            onSelect={triggers.DecreaseCount}
+                            selected={false}
+                            multiSelect={false}
+                            disabled={false}
+                            focusKey={FocusAuto}
+                        />
+                        <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.Count")}>
+                            <NumberField
+                                className={mouseToolTheme.numberField}
+                                value={PlacementCount}
+                                rendered={renderedCount}
+                                min={2}
+                                max={1000}
+                                fractionDigits={0}
+                                onCommit={triggers.SetPlacementCount}
+                            />
+                        </Tooltip>
+                        <ToolButton
+                            className={mouseToolTheme.endButton}
+                            src="coui://uil/Standard/ArrowUpThickStroke.svg"
+                            tooltip={TitledParaTooltip("LINETOOL.CountUp", "LINETOOL_DESCRIPTION.Count", "LINETOOL_DESCRIPTION.CountModifiers")}
+                            onSelect={triggers.IncreaseCount}
+                            selected={false}
+                            multiSelect={false}
+                            disabled={false}
+                            focusKey={FocusAuto}
+                        />
+                    </Section>
+                )
+            }
+            else {
+                // Not in count mode - return empty.
+                return (<></>)
+            }
+        }
+
+        // Spacing rows; hidden in fence and wall-to-wall modes, where spacing is determined by the object size.
+        function SpacingSections(): JSX.Element {
+            if (!fenceModeEnabled && !w2wModeEnabled) {
+                return (
+                    <>
+                        <Section title={translate(gridModeEnabled ? "LINETOOL.GridColumnSpacing" : "LINETOOL.Spacing")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.Spacing")}>
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/MeasureEven.svg"}
+                                tooltip={TitledTooltip("LINETOOL.FixedLength", "LINETOOL_DESCRIPTION.FixedLength")}
+                                onSelect={triggers.ToggleFullLength}
+                                selected={fullLengthEnabled}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            {CountModeButton()}
+                            <ToolButton
+                                className={mouseToolTheme.startButton}
+                                src="coui://uil/Standard/ArrowDownThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.SpacingDown", "LINETOOL_DESCRIPTION.Spacing", "LINETOOL_DESCRIPTION.SpacingModifiers", hotkeyIndex.DecreaseSpacing)}
+                                onSelect={triggers.DecreaseSpacing}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={spacingLocked}
+                                focusKey={FocusAuto}
+                            />
+                            <FocusableField focusKey="LineTool.Spacing" disabled={spacingLocked} onIncrease={triggers.IncreaseSpacing} onDecrease={triggers.DecreaseSpacing}>
+                                <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.Spacing")}>
+                                    <NumberField
+                                        className={mouseToolTheme.numberField}
+                                        value={Spacing}
+                                        rendered={renderedSpacing}
+                                        min={0.1}
+                                        max={1000}
+                                        fractionDigits={1}
+                                        scale={lengthUnits}
+                                        decimalSeparator={valueFormat.decimalSeparator}
+                                        disabled={spacingLocked}
+                                        onCommit={triggers.SetSpacing}
+                                    />
+                                </Tooltip>
+                            </FocusableField>
+                            <ToolButton
+                                className={mouseToolTheme.endButton}
+                                src="coui://uil/Standard/ArrowUpThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.SpacingUp", "LINETOOL_DESCRIPTION.Spacing", "LINETOOL_DESCRIPTION.SpacingModifiers", hotkeyIndex.IncreaseSpacing)}
+                                onSelect={triggers.IncreaseSpacing}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={spacingLocked}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                        {CountSection()}
+                    </>
+                )
+            }
+            else {
+                // Fence or wall-to-wall mode - return empty.
+                return (<></>)
+            }
+        }
+
+        // Lock button for a row with a fixable value.
+        function LockButton(locked: boolean, onSelect: () => void, title: string, description: string): JSX.Element {
+            return (
+                <ToolButton
+                    className={toolButtonTheme.button}
+                    src={"coui://uil/Standard/Lock.svg"}
+                    tooltip={TitledTooltip(title, description)}
+                    onSelect={onSelect}
+                    selected={locked}
+                    multiSelect={false}
+                    disabled={false}
+                    focusKey={FocusAuto}
+                />
+            )
+        }
+
+        // Grid rows; only visible in grid mode.
+        function GridSections(): JSX.Element {
+            if (gridModeEnabled) {
+                // Column counts don't apply in fence or wall-to-wall modes, where spacing along the row is determined by the object size.
+                const columnCountAvailable: boolean = !fenceModeEnabled && !w2wModeEnabled;
+
+                return (
+                    <>
+                        <Section title={translate("LINETOOL.GridRowSpacing")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.GridRowSpacing")}>
+                            <ToolButton
+                                className={mouseToolTheme.startButton}
+                                src="coui://uil/Standard/ArrowDownThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.GridRowSpacingDown", "LINETOOL_DESCRIPTION.GridRowSpacing", "LINETOOL_DESCRIPTION.SpacingModifiers")}
+                                onSelect={triggers.DecreaseGridRowSpacing}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={gridRowCountLocked}
+                                focusKey={FocusAuto}
+                            />
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.GridRowSpacing")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={GridRowSpacing}
+                                    rendered={renderedGridRowSpacing}
+                                    min={0.1}
+                                    max={1000}
+                                    fractionDigits={1}
+                                    scale={lengthUnits}
+                                    decimalSeparator={valueFormat.decimalSeparator}
+                                    disabled={gridRowCountLocked}
+                                    onCommit={triggers.SetGridRowSpacing}
+                                />
+                            </Tooltip>
+                            <ToolButton
+                                className={mouseToolTheme.endButton}
+                                src="coui://uil/Standard/ArrowUpThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.GridRowSpacingUp", "LINETOOL_DESCRIPTION.GridRowSpacing", "LINETOOL_DESCRIPTION.SpacingModifiers")}
+                                onSelect={triggers.IncreaseGridRowSpacing}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={gridRowCountLocked}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                        {columnCountAvailable &&
+                            <Section title={translate("LINETOOL.GridColumns")}
+                                     tooltip={translate("LINETOOL_DESCRIPTION.GridColumns")}>
+                                {LockButton(gridColumnCountLocked, triggers.ToggleGridColumnLock, "LINETOOL.GridColumnLock", "LINETOOL_DESCRIPTION.GridColumnLock")}
+                                <ToolButton
+                                    className={mouseToolTheme.startButton}
+                                    src="coui://uil/Standard/ArrowDownThickStroke.svg"
+                                    tooltip={TitledParaTooltip("LINETOOL.CountDown", "LINETOOL_DESCRIPTION.GridColumns", "LINETOOL_DESCRIPTION.CountModifiers")}
+                                    onSelect={triggers.DecreaseGridColumns}
+                                    selected={false}
+                                    multiSelect={false}
+                                    disabled={!gridColumnCountLocked}
+                                    focusKey={FocusAuto}
+                                />
+                                <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.GridColumns")}>
+                                    <NumberField
+                                        className={mouseToolTheme.numberField}
+                                        value={GridColumnCount}
+                                        rendered={renderedGridColumnCount}
+                                        min={1}
+                                        max={1000}
+                                        fractionDigits={0}
+                                        disabled={!gridColumnCountLocked}
+                                        onCommit={triggers.SetGridColumnCount}
+                                    />
+                                </Tooltip>
+                                <ToolButton
+                                    className={mouseToolTheme.endButton}
+                                    src="coui://uil/Standard/ArrowUpThickStroke.svg"
+                                    tooltip={TitledParaTooltip("LINETOOL.CountUp", "LINETOOL_DESCRIPTION.GridColumns", "LINETOOL_DESCRIPTION.CountModifiers")}
+                                    onSelect={triggers.IncreaseGridColumns}
+                                    selected={false}
+                                    multiSelect={false}
+                                    disabled={!gridColumnCountLocked}
+                                    focusKey={FocusAuto}
+                                />
+                            </Section>
+                        }
+                        <Section title={translate("LINETOOL.GridRows")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.GridRows")}>
+                            {LockButton(gridRowCountLocked, triggers.ToggleGridRowLock, "LINETOOL.GridRowLock", "LINETOOL_DESCRIPTION.GridRowLock")}
+                            <ToolButton
+                                className={mouseToolTheme.startButton}
+                                src="coui://uil/Standard/ArrowDownThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.CountDown", "LINETOOL_DESCRIPTION.GridRows", "LINETOOL_DESCRIPTION.CountModifiers")}
+                                onSelect={triggers.DecreaseGridRows}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={!gridRowCountLocked}
+                                focusKey={FocusAuto}
+                            />
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.GridRows")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={GridRowCount}
+                                    rendered={renderedGridRowCount}
+                                    min={1}
+                                    max={1000}
+                                    fractionDigits={0}
+                                    disabled={!gridRowCountLocked}
+                                    onCommit={triggers.SetGridRowCount}
+                                />
+                            </Tooltip>
+                            <ToolButton
+                                className={mouseToolTheme.endButton}
+                                src="coui://uil/Standard/ArrowUpThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.CountUp", "LINETOOL_DESCRIPTION.GridRows", "LINETOOL_DESCRIPTION.CountModifiers")}
+                                onSelect={triggers.IncreaseGridRows}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={!gridRowCountLocked}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                        <Section title={translate("LINETOOL.GridSize")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.GridSize")}>
+                            <div className={mouseToolTheme.numberField}>{renderedGridSize}</div>
+                        </Section>
+                    </>
+                )
+            }
+            else {
+                // Not in grid mode - return empty.
+                return (<></>)
+            }
+        }
+
+        // Elevation parameter rows; only visible in fixed elevation or constant slope modes.
+        function ElevationSections(): JSX.Element {
+            if (fixedElevationEnabled) {
+                return (
+                    <>
+                        <Section title={translate("LINETOOL.FixedElevationHeight")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.FixedElevationHeight")}>
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/ElevationVaried.svg"}
+                                tooltip={TitledTooltip("LINETOOL.FixedElevationOffset", "LINETOOL_DESCRIPTION.FixedElevationOffset")}
+                                onSelect={() => { if (fixedElevationAbsolute) triggers.ToggleFixedElevationAbsolute(); }}
+                                selected={!fixedElevationAbsolute}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/ElevationLevel.svg"}
+                                tooltip={TitledTooltip("LINETOOL.FixedElevationAbsolute", "LINETOOL_DESCRIPTION.FixedElevationAbsolute")}
+                                onSelect={() => { if (!fixedElevationAbsolute) triggers.ToggleFixedElevationAbsolute(); }}
+                                selected={fixedElevationAbsolute}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.FixedElevationHeight")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={FixedElevationHeight}
+                                    rendered={renderedFixedElevationHeight}
+                                    min={-4000}
+                                    max={4000}
+                                    fractionDigits={1}
+                                    scale={lengthUnits}
+                                    decimalSeparator={valueFormat.decimalSeparator}
+                                    onCommit={triggers.SetFixedElevationHeight}
+                                />
+                            </Tooltip>
+                        </Section>
+                        <Section title={translate("LINETOOL.CurrentElevation")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.CurrentElevation")}>
+                            <div className={mouseToolTheme.numberField}>{renderedFixedElevation}</div>
+                        </Section>
+                    </>
+                );
+            }
+            else if (constantSlopeEnabled) {
+                return (
+                    <>
+                        <Section title={translate("LINETOOL.SlopeStartHeight")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.SlopeStartHeight")}>
+                            {LockButton(slopeStartHeightFixed, triggers.ToggleSlopeStartHeightFixed, "LINETOOL.SlopeStartHeightLock", "LINETOOL_DESCRIPTION.SlopeStartHeightLock")}
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.SlopeStartHeight")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={(slopeStartHeightFixed ? SlopeStartHeight : CalculatedStartElevation)}
+                                    rendered={renderedSlopeStartHeight}
+                                    min={-4000}
+                                    max={4000}
+                                    fractionDigits={1}
+                                    scale={lengthUnits}
+                                    decimalSeparator={valueFormat.decimalSeparator}
+                                    disabled={!slopeStartHeightFixed}
+                                    onCommit={triggers.SetSlopeStartHeight}
+                                />
+                            </Tooltip>
+                        </Section>
+                        <Section title={translate("LINETOOL.SlopeEndHeight")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.SlopeEndHeight")}>
+                            {LockButton(slopeEndHeightFixed, triggers.ToggleSlopeEndHeightFixed, "LINETOOL.SlopeEndHeightLock", "LINETOOL_DESCRIPTION.SlopeEndHeightLock")}
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.SlopeEndHeight")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={(slopeEndHeightFixed ? SlopeEndHeight : CalculatedEndElevation)}
+                                    rendered={renderedSlopeEndHeight}
+                                    min={-4000}
+                                    max={4000}
+                                    fractionDigits={1}
+                                    scale={lengthUnits}
+                                    decimalSeparator={valueFormat.decimalSeparator}
+                                    disabled={!slopeEndHeightFixed}
+                                    onCommit={triggers.SetSlopeEndHeight}
+                                />
+                            </Tooltip>
+                        </Section>
+                        <Section title={translate("LINETOOL.Slope")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.Slope")}>
+                            {LockButton(slopeFixed, triggers.ToggleSlopeFixed, "LINETOOL.SlopeLock", "LINETOOL_DESCRIPTION.SlopeLock")}
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.Slope")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={(slopeFixed ? SlopePercent : CalculatedSlope)}
+                                    rendered={renderedSlope}
+                                    min={-100}
+                                    max={100}
+                                    fractionDigits={1}
+                                    decimalSeparator={valueFormat.decimalSeparator}
+                                    disabled={!slopeFixed}
+                                    onCommit={triggers.SetSlopePercent}
+                                />
+                            </Tooltip>
+                        </Section>
+                    </>
+                );
+            }
+
+            // Following terrain - no parameters.
+            return (<></>);
+        }
+
+        // Parallel row settings; only visible in straight line, simple curve and circle modes.
+        function ParallelRowSections(): JSX.Element {
+            if (straightLineModeEnabled || simpleCurveModeEnabled || circleModeEnabled) {
+                return (
+                    <>
+                        <Section title={translate("LINETOOL.ParallelRows")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.ParallelRows")}>
+                            <ToolButton
+                                className={mouseToolTheme.startButton}
+                                src="coui://uil/Standard/ArrowDownThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.CountDown", "LINETOOL_DESCRIPTION.ParallelRows", "LINETOOL_DESCRIPTION.CountModifiers")}
+                                onSelect={triggers.DecreaseParallelRows}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.ParallelRows")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={ParallelRowCount}
+                                    rendered={renderedParallelRowCount}
+                                    min={1}
+                                    max={20}
+                                    fractionDigits={0}
+                                    onCommit={triggers.SetParallelRowCount}
+                                />
+                            </Tooltip>
+                            <ToolButton
+                                className={mouseToolTheme.endButton}
+                                src="coui://uil/Standard/ArrowUpThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.CountUp", "LINETOOL_DESCRIPTION.ParallelRows", "LINETOOL_DESCRIPTION.CountModifiers")}
+                                onSelect={triggers.IncreaseParallelRows}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                        {ParallelRowCount > 1 &&
+                            <>
+                                <Section title={translate("LINETOOL.ParallelRowSpacing")}
+                                         tooltip={translate("LINETOOL_DESCRIPTION.ParallelRowSpacing")}>
+                                    <ToolButton
+                                        className={mouseToolTheme.startButton}
+                                        src="coui://uil/Standard/ArrowDownThickStroke.svg"
+                                        tooltip={TitledParaTooltip("LINETOOL.ParallelRowSpacingDown", "LINETOOL_DESCRIPTION.ParallelRowSpacing", "LINETOOL_DESCRIPTION.SpacingModifiers")}
+                                        onSelect={triggers.DecreaseParallelRowSpacing}
+                                        selected={false}
+                                        multiSelect={false}
+                                        disabled={false}
+                                        focusKey={FocusAuto}
+                                    />
+                                    <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.ParallelRowSpacing")}>
+                                        <NumberField
+                                            className={mouseToolTheme.numberField}
+                                            value={ParallelRowSpacing}
+                                            rendered={renderedParallelRowSpacing}
+                                            min={0.1}
+                                            max={1000}
+                                            fractionDigits={1}
+                                            scale={lengthUnits}
+                                            decimalSeparator={valueFormat.decimalSeparator}
+                                            onCommit={triggers.SetParallelRowSpacing}
+                                        />
+                                    </Tooltip>
+                                    <ToolButton
+                                        className={mouseToolTheme.endButton}
+                                        src="coui://uil/Standard/ArrowUpThickStroke.svg"
+                                        tooltip={TitledParaTooltip("LINETOOL.ParallelRowSpacingUp", "LINETOOL_DESCRIPTION.ParallelRowSpacing", "LINETOOL_DESCRIPTION.SpacingModifiers")}
+                                        onSelect={triggers.IncreaseParallelRowSpacing}
+                                        selected={false}
+                                        multiSelect={false}
+                                        disabled={false}
+                                        focusKey={FocusAuto}
+                                    />
+                                </Section>
+                                <Section title={translate("LINETOOL.ParallelRowStagger")}
+                                         tooltip={translate("LINETOOL_DESCRIPTION.ParallelRowStagger")}>
+                                    <ToolButton
+                                        className={toolButtonTheme.button}
+                                        src={"coui://uil/Standard/Checkmark.svg"}
+                                        tooltip={TitledTooltip("LINETOOL.ParallelRowStagger", "LINETOOL_DESCRIPTION.ParallelRowStagger")}
+                                        onSelect={triggers.ToggleParallelRowStagger}
+                                        selected={parallelRowsStaggered}
+                                        multiSelect={false}
+                                        disabled={fenceModeEnabled || w2wModeEnabled}
+                                        focusKey={FocusAuto}
+                                    />
+                                </Section>
+                            </>
+                        }
+                    </>
+                )
+            }
+            else {
+                // Not in a parallel row mode - return empty.
+                return (<></>)
+            }
+        }
+
+        // Follow-network settings; only visible in follow-network mode.
+        function NetworkSections(): JSX.Element {
+            if (followNetworkModeEnabled) {
+                return (
+                    <>
+                        <Section title={translate("LINETOOL.NetworkSide")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.NetworkSide")}>
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/ArrowLeftThickStroke.svg"}
+                                tooltip={TitledTooltip("LINETOOL.NetworkSideLeft", "LINETOOL_DESCRIPTION.NetworkSideLeft")}
+                                onSelect={triggers.SetNetworkSideLeft}
+                                selected={networkSideLeftEnabled}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/ArrowRightThickStroke.svg"}
+                                tooltip={TitledTooltip("LINETOOL.NetworkSideRight", "LINETOOL_DESCRIPTION.NetworkSideRight")}
+                                onSelect={triggers.SetNetworkSideRight}
+                                selected={networkSideRightEnabled}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/ArrowLeftRight.svg"}
+                                tooltip={TitledTooltip("LINETOOL.NetworkSideBoth", "LINETOOL_DESCRIPTION.NetworkSideBoth")}
+                                onSelect={triggers.SetNetworkSideBoth}
+                                selected={networkSideBothEnabled}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                        <Section title={translate("LINETOOL.NetworkOffset")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.NetworkOffset")}>
+                            <ToolButton
+                                className={mouseToolTheme.startButton}
+                                src="coui://uil/Standard/ArrowDownThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.NetworkOffsetDown", "LINETOOL_DESCRIPTION.NetworkOffset", "LINETOOL_DESCRIPTION.SpacingModifiers")}
+                                onSelect={triggers.DecreaseNetworkOffset}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.NetworkOffset")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={NetworkOffset}
+                                    rendered={renderedNetworkOffset}
+                                    min={-100}
+                                    max={100}
+                                    fractionDigits={1}
+                                    scale={lengthUnits}
+                                    decimalSeparator={valueFormat.decimalSeparator}
+                                    onCommit={triggers.SetNetworkOffset}
+                                />
+                            </Tooltip>
+                            <ToolButton
+                                className={mouseToolTheme.endButton}
+                                src="coui://uil/Standard/ArrowUpThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.NetworkOffsetUp", "LINETOOL_DESCRIPTION.NetworkOffset", "LINETOOL_DESCRIPTION.SpacingModifiers")}
+                                onSelect={triggers.IncreaseNetworkOffset}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                    </>
+                )
+            }
+            else {
+                // Not in follow-network mode - return empty.
+                return (<></>)
+            }
+        }
+
+        // Circle rows; only visible in circle mode.
+        function CircleSections(): JSX.Element {
+            if (circleModeEnabled) {
+                return (
+                    <>
+                        <Section title={translate("LINETOOL.CirclePlacement")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.CirclePlacement")}>
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"Media/Tools/Snap Options/Distance.svg"}
+                                tooltip={TitledTooltip("LINETOOL.CircleBySpacing", "LINETOOL_DESCRIPTION.CircleBySpacing")}
+                                onSelect={() => { if (countModeEnabled) triggers.ToggleCountMode(); }}
+                                selected={!countModeEnabled}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/MeasureCount.svg"}
+                                tooltip={TitledTooltip("LINETOOL.CircleByCount", "LINETOOL_DESCRIPTION.CircleByCount")}
+                                onSelect={() => { if (!countModeEnabled) triggers.ToggleCountMode(); }}
+                                selected={countModeEnabled}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                        <Section title={translate("LINETOOL.CircleArcAngle")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.CircleArcAngle")}>
+                            <ToolButton
+                                className={mouseToolTheme.startButton}
+                                src="coui://uil/Standard/ArrowDownThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.CircleArcAngleDown", "LINETOOL_DESCRIPTION.CircleArcAngle", "LINETOOL_DESCRIPTION.RotationModifiers")}
+                                onSelect={triggers.DecreaseCircleArcAngle}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.CircleArcAngle")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={CircleArcAngle}
+                                    rendered={renderedCircleArcAngle}
+                                    min={1}
+                                    max={360}
+                                    fractionDigits={0}
+                                    onCommit={triggers.SetCircleArcAngle}
+                                />
+                            </Tooltip>
+                            <ToolButton
+                                className={mouseToolTheme.endButton}
+                                src="coui://uil/Standard/ArrowUpThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.CircleArcAngleUp", "LINETOOL_DESCRIPTION.CircleArcAngle", "LINETOOL_DESCRIPTION.RotationModifiers")}
+                                onSelect={triggers.IncreaseCircleArcAngle}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                        <Section title={translate("LINETOOL.CircleStartAngle")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.CircleStartAngle")}>
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/Lock.svg"}
+                                tooltip={TitledTooltip("LINETOOL.CircleStartAngleFixed", "LINETOOL_DESCRIPTION.CircleStartAngleFixed")}
+                                onSelect={triggers.ToggleCircleStartAngle}
+                                selected={circleStartAngleFixed}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                            <ToolButton
+                                className={mouseToolTheme.startButton}
+                                src="coui://uil/Standard/ArrowDownThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.AntiClockwise", "LINETOOL_DESCRIPTION.CircleStartAngle", "LINETOOL_DESCRIPTION.RotationModifiers")}
+                                onSelect={triggers.DecreaseCircleStartAngle}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={!circleStartAngleFixed}
+                                focusKey={FocusAuto}
+                            />
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.CircleStartAngle")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={CircleStartAngle}
+                                    rendered={renderedCircleStartAngle}
+                                    min={0}
+                                    max={359}
+                                    fractionDigits={0}
+                                    disabled={!circleStartAngleFixed}
+                                    onCommit={triggers.SetCircleStartAngle}
+                                />
+                            </Tooltip>
+                            <ToolButton
+                                className={mouseToolTheme.endButton}
+                                src="coui://uil/Standard/ArrowUpThickStroke.svg"
+                                tooltip={TitledParaTooltip("LINETOOL.Clockwise", "LINETOOL_DESCRIPTION.CircleStartAngle", "LINETOOL_DESCRIPTION.RotationModifiers")}
+                                onSelect={triggers.IncreaseCircleStartAngle}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={!circleStartAngleFixed}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                    </>
+                )
+            }
+            else {
+                // Not in circle mode - return empty.
+                return (<></>)
+            }
+        }
+
+        // Placement statistics rows (read-only).
+        function StatisticsSections(): JSX.Element {
+            return (
+                <>
+                    <Section title={translate("LINETOOL.PreviewCount")}
+                             tooltip={translate("LINETOOL_DESCRIPTION.PreviewCount")}>
+                        <div className={mouseToolTheme.numberField}>{renderedPreviewCount}</div>
+                    </Section>
+                    <Section title={translate("LINETOOL.PreviewLength")}
+                             tooltip={translate("LINETOOL_DESCRIPTION.PreviewLength")}>
+                        <div className={mouseToolTheme.numberField}>{renderedPreviewLength}</div>
+                    </Section>
+                    <Section title={translate("LINETOOL.PreviewSpacing")}
+                             tooltip={translate("LINETOOL_DESCRIPTION.PreviewSpacing")}>
+                        <div className={mouseToolTheme.numberField}>{renderedPreviewSpacing}</div>
+                    </Section>
+                    <Section title={translate("LINETOOL.PreviewCost")}
+                             tooltip={translate("LINETOOL_DESCRIPTION.PreviewCost")}>
+                        <div className={mouseToolTheme.numberField}>{renderedPreviewCost}</div>
+                    </Section>
+                </>
+            )
+        }
+
+        // Tree age rows; only visible when a tree is selected.
+        function TreeAgeSections(): JSX.Element {
+            if (treeSelected) {
+                return (
+                    <>
+                        <Section title={translate("LINETOOL.TreeAge")}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.TreeAge")}>
+                            {treeAges.map((age, index: number) => (
+                                <ToolButton
+                                    key={age.name}
+                                    className={toolButtonTheme.button}
+                                    src={age.icon}
+                                    tooltip={TitledTooltip("LINETOOL.TreeAge" + age.name, "LINETOOL_DESCRIPTION.TreeAge")}
+                                    onSelect={() => triggers.ToggleAge(1 << index)}
+                                    selected={(ageMask & (1 << index)) != 0}
+                                    multiSelect={true}
+                                    disabled={false}
+                                    focusKey={FocusAuto}
+                                />
+                            ))}
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/Dice.svg"}
+                                tooltip={TitledTooltip("LINETOOL.AgeMix", "LINETOOL_DESCRIPTION.AgeMix")}
+                                onSelect={triggers.ToggleAgeMix}
+                                selected={ageMixEnabled}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                        {ageMixEnabled && treeAges.map((age, index: number) => (ageMask & (1 << index)) != 0 &&
+                            <Section key={age.name}
+                                     title={translate("LINETOOL.TreeAge" + age.name)}
+                                     tooltip={translate("LINETOOL_DESCRIPTION.AgeWeight")}>
+                                <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.AgeWeight")}>
+                                    <NumberField
+                                        className={mouseToolTheme.numberField}
+                                        value={ageWeights[index] ?? 0}
+                                        rendered={formatNumber(ageWeights[index] ?? 0, 0, valueFormat)}
+                                        min={0}
+                                        max={100}
+                                        fractionDigits={0}
+                                        onCommit={(value: number) => triggers.SetAgeWeight(index, value)}
+                                    />
+                                </Tooltip>
+                            </Section>
+                        )}
+                    </>
+                )
+            }
+            else {
+                // No tree selected - return empty.
+                return (<></>)
+            }
+        }
+
+        // Prefab mix rows.
+        function PrefabMixSections(): JSX.Element {
+            return (
+                <>
+                    <Section title={translate("LINETOOL.PrefabMix")}
+                             tooltip={translate("LINETOOL_DESCRIPTION.PrefabMix")}>
+                        <ToolButton
+                            className={toolButtonTheme.button}
+                            src={"coui://uil/Standard/Checkmark.svg"}
+                            tooltip={TitledTooltip("LINETOOL.PrefabMixEnabled", "LINETOOL_DESCRIPTION.PrefabMixEnabled")}
+                            onSelect={triggers.TogglePrefabMix}
+                            selected={prefabMixEnabled}
+                            multiSelect={false}
+                            disabled={prefabMixNames.length == 0}
+                            focusKey={FocusAuto}
+                        />
+                        <ToolButton
+                            className={toolButtonTheme.button}
+                            src={"coui://uil/Standard/Dice.svg"}
+                            tooltip={TitledTooltip("LINETOOL.PrefabMixRandom", "LINETOOL_DESCRIPTION.PrefabMixRandom")}
+                            onSelect={triggers.SetPrefabMixRandom}
+                            selected={!prefabMixAlternating}
+                            multiSelect={false}
+                            disabled={false}
+                            focusKey={FocusAuto}
+                        />
+                        <ToolButton
+                            className={toolButtonTheme.button}
+                            src={"coui://uil/Standard/MeasureEven.svg"}
+                            tooltip={TitledTooltip("LINETOOL.PrefabMixAlternating", "LINETOOL_DESCRIPTION.PrefabMixAlternating")}
+                            onSelect={triggers.SetPrefabMixAlternating}
+                            selected={prefabMixAlternating}
+                            multiSelect={false}
+                            disabled={false}
+                            focusKey={FocusAuto}
+                        />
+                        <ToolButton
+                            className={toolButtonTheme.button}
+                            src={"coui://uil/Standard/Plus.svg"}
+                            tooltip={TitledTooltip("LINETOOL.AddToPrefabMix", "LINETOOL_DESCRIPTION.AddToPrefabMix")}
+                            onSelect={triggers.AddToPrefabMix}
+                            selected={false}
+                            multiSelect={false}
+                            disabled={selectedPrefabInMix}
+                            focusKey={FocusAuto}
+                        />
+                    </Section>
+                    {prefabMixNames.map((name: string, index: number) => (
+                        <Section key={name}
+                                 title={translate("Assets.NAME[" + name + "]", name)}
+                                 tooltip={translate("LINETOOL_DESCRIPTION.PrefabMixWeight")}>
+                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.PrefabMixWeight")}>
+                                <NumberField
+                                    className={mouseToolTheme.numberField}
+                                    value={prefabMixWeights[index] ?? 0}
+                                    rendered={formatNumber(prefabMixWeights[index] ?? 0, 0, valueFormat)}
+                                    min={0}
+                                    max={100}
+                                    fractionDigits={0}
+                                    onCommit={(value: number) => triggers.SetPrefabMixWeight(index, value)}
+                                />
+                            </Tooltip>
+                            <ToolButton
+                                className={toolButtonTheme.button}
+                                src={"coui://uil/Standard/Trash.svg"}
+                                tooltip={TitledTooltip("LINETOOL.RemoveFromPrefabMix", "LINETOOL_DESCRIPTION.RemoveFromPrefabMix")}
+                                onSelect={() => triggers.RemoveFromPrefabMix(index)}
+                                selected={false}
+                                multiSelect={false}
+                                disabled={false}
+                                focusKey={FocusAuto}
+                            />
+                        </Section>
+                    ))}
+                </>
+            )
+        }
+
         // Show mode row if set.
         let result: JSX.Element = Component();
         if (showModeRow) {
-            result.props.children?.push(
+            // Line Tool rows, navigated as a group (top to bottom, then left to right within each row).
+            // Each row is keyed by name, so that React can track rows as sections are shown and hidden.
+            const rows: JSX.Element[] = [];
+            function addRow(key: string, row: JSX.Element) {
+                rows.push(<Fragment key={key}>{row}</Fragment>);
+            }
+
+            addRow("Modes",
                 <Section title={ pointModeEnabled ? translate("LINETOOL.Title") : translate("LINETOOL.LineMode")}>
                     <ToolButton
                         className={toolButtonTheme.button}
                         src={"Media/Tools/Net Tool/Point.svg"}
-                        tooltip={TitledTooltip("LINETOOL.PointMode","LINETOOL_DESCRIPTION.PointMode")}
-                        onSelect={pointModeClick}
+                        tooltip={TitledTooltip("LINETOOL.PointMode","LINETOOL_DESCRIPTION.PointMode", hotkeyIndex.PointMode)}
+                        onSelect={triggers.SetPointMode}
                         selected={pointModeEnabled}
                         multiSelect={false}
                         disabled={false}
-                        focusKey={FocusDisabled}
+                        focusKey={FocusAuto}
                     />
                     <ToolButton
                         className={toolButtonTheme.button}
                         src={"Media/Tools/Object Tool/Line.svg"}
-                        tooltip={TitledTooltip("LINETOOL.StraightLine","LINETOOL_DESCRIPTION.PointMode")}
-                        onSelect={straightLineModeClick}
+                        tooltip={TitledTooltip("LINETOOL.StraightLine","LINETOOL_DESCRIPTION.PointMode", hotkeyIndex.StraightLineMode)}
+                        onSelect={triggers.SetStraightLineMode}
                         selected={straightLineModeEnabled}
                         multiSelect={false}
                         disabled={false}
-                        focusKey={FocusDisabled}
+                        focusKey={FocusAuto}
                     />
                     <ToolButton
                         className={toolButtonTheme.button}
                         src={"Media/Tools/Object Tool/Curve.svg"}
-                        tooltip={TitledTooltip("LINETOOL.SimpleCurve", "LINETOOL_DESCRIPTION.SimpleCurve")}
-                        onSelect={simpleCurveModeClick}
+                        tooltip={TitledTooltip("LINETOOL.SimpleCurve", "LINETOOL_DESCRIPTION.SimpleCurve", hotkeyIndex.SimpleCurveMode)}
+                        onSelect={triggers.SetSimpleCurveMode}
                         selected={simpleCurveModeEnabled}
                         multiSelect={false}
                         disabled={false}
-                        focusKey={FocusDisabled}
+                        focusKey={FocusAuto}
                     />
                     <ToolButton
                         className={toolButtonTheme.button}
                         src={"coui://uil/Standard/Circle.svg"}
-                        tooltip={TitledTooltip("LINETOOL.Circle", "LINETOOL_DESCRIPTION.Circle")}
-                        onSelect={circleModeClick}
+                        tooltip={TitledTooltip("LINETOOL.Circle", "LINETOOL_DESCRIPTION.Circle", hotkeyIndex.CircleMode)}
+                        onSelect={triggers.SetCircleMode}
                         selected={circleModeEnabled}
                         multiSelect={false}
                         disabled={false}
-                        focusKey={FocusDisabled}
+                        focusKey={FocusAuto}
                     />
                     <ToolButton
                         className={toolButtonTheme.button}
                         src={"Media/Tools/Net Tool/Grid.svg"}
-                        tooltip={TitledTooltip("LINETOOL.Grid", "LINETOOL_DESCRIPTION.Grid")}
-                        onSelect={gridModeClick}
+                        tooltip={TitledTooltip("LINETOOL.Grid", "LINETOOL_DESCRIPTION.Grid", hotkeyIndex.GridMode)}
+                        onSelect={triggers.SetGridMode}
                         selected={gridModeEnabled}
                         multiSelect={false}
                         disabled={false}
-                        focusKey={FocusDisabled}
+                        focusKey={FocusAuto}
+                    />
+                    <ToolButton
+                        className={toolButtonTheme.button}
+                        src={"Media/Tools/Net Tool/Continuous.svg"}
+                        tooltip={TitledTooltip("LINETOOL.Polyline", "LINETOOL_DESCRIPTION.Polyline", hotkeyIndex.PolylineMode)}
+                        onSelect={triggers.SetPolylineMode}
+                        selected={polylineModeEnabled}
+                        multiSelect={false}
+                        disabled={false}
+                        focusKey={FocusAuto}
+                    />
+                    <ToolButton
+                        className={toolButtonTheme.button}
+                        src={"Media/Game/Icons/Roads.svg"}
+                        tooltip={TitledTooltip("LINETOOL.FollowNetwork", "LINETOOL_DESCRIPTION.FollowNetwork", hotkeyIndex.FollowNetworkMode)}
+                        onSelect={triggers.SetFollowNetworkMode}
+                        selected={followNetworkModeEnabled}
+                        multiSelect={false}
+                        disabled={false}
+                        focusKey={FocusAuto}
                     />
                 </Section>
             );
 
             // Show additional options if anything other than single point mode is selected.
             if (!pointModeEnabled) {
-                result.props.children?.push(
+                addRow("Options",
                     <>
                         <Section title={translate("LINETOOL.Options")}>
                             <ToolButton
                                 className={toolButtonTheme.button}
                                 src={"Media/Tools/Snap Options/Distance.svg"}
                                 tooltip={TitledTooltip("LINETOOL.LengthSnap", "LINETOOL_DESCRIPTION.LengthSnap")}
-                                onSelect={lengthSnapClick}
+                                onSelect={triggers.ToggleLengthSnap}
                                 selected={lengthSnapEnabled}
                                 multiSelect={false}
                                 disabled={false}
-                                focusKey={FocusDisabled}
+                                focusKey={FocusAuto}
                             />
                             {FenceModeButton()}
                             {W2WModeButton()}
                             <ToolButton
                                 className={toolButtonTheme.button}
                                 src={"coui://uil/Standard/Dice.svg"}
-                                tooltip={TitledTooltip("LINETOOL.RandomizationEnabled", "LINETOOL_DESCRIPTION.RandomizationEnabled")}
-                                onSelect={randomizationClick}
+                                tooltip={TitledTooltip("LINETOOL.RandomizationEnabled", "LINETOOL_DESCRIPTION.RandomizationEnabled", hotkeyIndex.ToggleRandomization)}
+                                onSelect={triggers.ToggleRandomization}
                                 selected={randomizationEnabled}
                                 multiSelect={false}
                                 disabled={false}
-                                focusKey={FocusDisabled}
+                                focusKey={FocusAuto}
                             />
                             <ToolButton
                                 className={toolButtonTheme.button}
                                 src={"coui://uil/Standard/Reset.svg"}
                                 tooltip={TitledTooltip("LINETOOL.ChangeRandom", "LINETOOL_DESCRIPTION.ChangeRandom")}
-                                onSelect={changeRandomClick}
+                                onSelect={triggers.UpdateRandomSeed}
                                 selected={false}
                                 multiSelect={false}
                                 disabled={false}
-                                focusKey={FocusDisabled}
+                                focusKey={FocusAuto}
                             />
                         </Section>
+                        {RandomSeedSections()}
                     </>
                 );
                 
+                // Placement rows (collapsible).
+                addRow("PlacementHeader", FoldHeader("Placement"));
+
                 // Show spacing and rotation if we're not in fence or wall-to-wall modes (unless we're in grid mode, in which case show it anyway).
                 if (gridModeEnabled || (!fenceModeEnabled && !w2wModeEnabled)) {
-                    result.props.children?.push(
+                    addRow("Spacing", Foldable("Placement",
                         <>
-                            <Section title={translate("LINETOOL.Spacing")}
-                                     tooltip={translate("LINETOOL_DESCRIPTION.Spacing")}>
-                                <ToolButton
-                                    className={toolButtonTheme.button}
-                                    src={"coui://uil/Standard/MeasureEven.svg"}
-                                    tooltip={TitledTooltip("LINETOOL.FixedLength", "LINETOOL_DESCRIPTION.FixedLength")}
-                                    onSelect={fullLengthClick}
-                                    selected={fullLengthEnabled}
-                                    multiSelect={false}
-                                    disabled={false}
-                                    focusKey={FocusDisabled}
-                                />
-                                <ToolButton
-                                    className={mouseToolTheme.startButton}
-                                    src="coui://uil/Standard/ArrowDownThickStroke.svg"
-                                    tooltip={TitledParaTooltip("LINETOOL.SpacingDown", "LINETOOL_DESCRIPTION.Spacing", "LINETOOL_DESCRIPTION.SpacingModifiers")}
-                                    onSelect={spacingDownClick}
-                                    selected={false}
-                                    multiSelect={false}
-                                    disabled={false}
-                                    focusKey={FocusDisabled}
-                                />
-                                <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.Spacing")}>
-                                    <div className={mouseToolTheme.numberField}>{renderedSpacing}</div>
-                                </Tooltip>
-                                <ToolButton
-                                    className={mouseToolTheme.endButton}
-                                    src="coui://uil/Standard/ArrowUpThickStroke.svg"
-                                    tooltip={TitledParaTooltip("LINETOOL.SpacingUp", "LINETOOL_DESCRIPTION.Spacing", "LINETOOL_DESCRIPTION.SpacingModifiers")}
-                                    onSelect={spacingUpClick}
-                                    selected={false}
-                                    multiSelect={false}
-                                    disabled={false}
-                                    focusKey={FocusDisabled}
-                                />
-                            </Section>
+                            {SpacingSections()}
                             <Section title={translate("LINETOOL.Rotation")}
                                      tooltip={translate("LINETOOL_DESCRIPTION.Rotation")}>
                                 <ToolButton
                                     className={toolButtonTheme.button}
                                     src={"coui://uil/Standard/RotateAngleRelative.svg"}
                                     tooltip={TitledTooltip("LINETOOL.RelativeRotation", "LINETOOL_DESCRIPTION.RelativeRotation")}
-                                    onSelect={relativeRotationClick}
+                                    onSelect={triggers.SetRelativeRotation}
                                     selected={relativeRotationEnabled}
                                     multiSelect={false}
                                     disabled={false}
-                                    focusKey={FocusDisabled}
+                                    focusKey={FocusAuto}
                                 />
                                 <ToolButton
                                     className={toolButtonTheme.button}
                                     src={"coui://uil/Standard/RotateAngleAbsolute.svg"}
                                     tooltip={TitledTooltip("LINETOOL.AbsoluteRotation", "LINETOOL_DESCRIPTION.AbsoluteRotation")}
-                                    onSelect={absoluteRotationClick}
+                                    onSelect={triggers.SetAbsoluteRotation}
                                     selected={absoluteRotationEnabled}
                                     multiSelect={false}
                                     disabled={false}
-                                    focusKey={FocusDisabled}
+                                    focusKey={FocusAuto}
                                 />
                                 <ToolButton
                                     className={toolButtonTheme.button}
                                     src={"coui://uil/Standard/Dice.svg"}
                                     tooltip={TitledTooltip("LINETOOL.RandomRotation", "LINETOOL_DESCRIPTION.RandomRotation")}
-                                    onSelect={randomRotationClick}
+                                    onSelect={triggers.SetRandomRotation}
                                     selected={randomRotationEnabled}
                                     multiSelect={false}
                                     disabled={false}
-                                    focusKey={FocusDisabled}
+                                    focusKey={FocusAuto}
                                 />
                                 <ToolButton
                                     className={mouseToolTheme.startButton}
                                     src="coui://uil/Standard/ArrowDownThickStroke.svg"
-                                    tooltip={TitledParaTooltip("LINETOOL.AntiClockwise", "LINETOOL_DESCRIPTION.Rotation", "LINETOOL_DESCRIPTION.RotationModifiers")}
-                                    onSelect={rotationDownClick}
+                                    tooltip={TitledParaTooltip("LINETOOL.AntiClockwise", "LINETOOL_DESCRIPTION.Rotation", "LINETOOL_DESCRIPTION.RotationModifiers", hotkeyIndex.DecreaseRotation)}
+                                    onSelect={triggers.DecreaseRotation}
                                     selected={false}
                                     multiSelect={false}
                                     disabled={randomRotationEnabled}
-                                    focusKey={FocusDisabled}
+                                    focusKey={FocusAuto}
                                 />
-                                <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.Rotation")}>
-                                    <div className={mouseToolTheme.numberField}>{renderedRotation}</div>
-                                </Tooltip>
+                                <FocusableField focusKey="LineTool.Rotation" disabled={randomRotationEnabled} onIncrease={triggers.IncreaseRotation} onDecrease={triggers.DecreaseRotation}>
+                                    <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.Rotation")}>
+                                        <NumberField
+                                            className={mouseToolTheme.numberField}
+                                            value={Rotation}
+                                            rendered={renderedRotation}
+                                            min={-360}
+                                            max={360}
+                                            fractionDigits={0}
+                                            disabled={randomRotationEnabled}
+                                            onCommit={triggers.SetRotation}
+                                        />
+                                    </Tooltip>
+                                </FocusableField>
                                 <ToolButton
                                     className={mouseToolTheme.endButton}
                                     src="coui://uil/Standard/ArrowUpThickStroke.svg"
-                                    tooltip={TitledParaTooltip("LINETOOL.Clockwise", "LINETOOL_DESCRIPTION.Rotation", "LINETOOL_DESCRIPTION.RotationModifiers")}
-                                    onSelect={rotationUpClick}
+                                    tooltip={TitledParaTooltip("LINETOOL.Clockwise", "LINETOOL_DESCRIPTION.Rotation", "LINETOOL_DESCRIPTION.RotationModifiers", hotkeyIndex.IncreaseRotation)}
+                                    onSelect={triggers.IncreaseRotation}
                                     selected={false}
                                     multiSelect={false}
                                     disabled={randomRotationEnabled}
-                                    focusKey={FocusDisabled}
+                                    focusKey={FocusAuto}
                                 />
                             </Section>
                         </>
-                    );
+                    ));
                 }
+
+                // Grid, circle, parallel and follow-network rows.
+                addRow("Grid", Foldable("Placement", GridSections()));
+                addRow("Circle", Foldable("Placement", CircleSections()));
+                addRow("ParallelRows", Foldable("Placement", ParallelRowSections()));
+                addRow("Network", Foldable("Placement", NetworkSections()));
+
+                // Tree age and prefab mix rows (collapsible).
+                addRow("ObjectsHeader", FoldHeader("Objects"));
+                addRow("TreeAge", Foldable("Objects", TreeAgeSections()));
+                addRow("PrefabMix", Foldable("Objects", PrefabMixSections()));
                 
                 // Elevation row.
-                result.props.children?.push(
+                addRow("Elevation",
                     <>
                         <Section title={translate("LINETOOL.Elevation")}>
                             <ToolButton
                                 className={toolButtonTheme.button}
                                 src={"coui://uil/Standard/ElevationVaried.svg"}
-                                tooltip={TitledTooltip("LINETOOL.FollowTerrain", "LINETOOL_DESCRIPTION.FollowTerrain")}
-                                onSelect={followTerrainClick}
+                                tooltip={TitledTooltip("LINETOOL.FollowTerrain", "LINETOOL_DESCRIPTION.FollowTerrain", hotkeyIndex.CycleElevationMode)}
+                                onSelect={triggers.SetFollowTerrain}
                                 selected={followTerrainEnabled}
                                 multiSelect={false}
                                 disabled={false}
-                                focusKey={FocusDisabled}
+                                focusKey={FocusAuto}
                             />
                             <ToolButton
                                 className={toolButtonTheme.button}
                                 src={"coui://uil/Standard/ElevationLevel.svg"}
-                                tooltip={TitledTooltip("LINETOOL.FixedElevation", "LINETOOL_DESCRIPTION.FixedElevation")}
-                                onSelect={fixedElevationClick}
+                                tooltip={TitledTooltip("LINETOOL.FixedElevation", "LINETOOL_DESCRIPTION.FixedElevation", hotkeyIndex.CycleElevationMode)}
+                                onSelect={triggers.SetFixedElevation}
                                 selected={fixedElevationEnabled}
                                 multiSelect={false}
                                 disabled={false}
-                                focusKey={FocusDisabled}
+                                focusKey={FocusAuto}
                             />
                             <ToolButton
                                 className={toolButtonTheme.button}
                                 src={"coui://uil/Standard/ElevationSlope.svg"}
-                                tooltip={TitledTooltip("LINETOOL.ConstantSlope", "LINETOOL_DESCRIPTION.ConstantSlope")}
-                                onSelect={constantSlopeClick}
+                                tooltip={TitledTooltip("LINETOOL.ConstantSlope", "LINETOOL_DESCRIPTION.ConstantSlope", hotkeyIndex.CycleElevationMode)}
+                                onSelect={triggers.SetConstantSlope}
                                 selected={constantSlopeEnabled}
                                 multiSelect={false}
                                 disabled={false}
-                                focusKey={FocusDisabled}
+                                focusKey={FocusAuto}
                             />
                         </Section>
                     </>
                 );
+                addRow("ElevationSettings", ElevationSections());
                 
-                // Variation rows.
-                result.props.children?.push(
+                // Rarely used variation rows, in the (collapsible) advanced section.
+                addRow("AdvancedHeader", FoldHeader("Advanced"));
+                addRow("Advanced", Foldable("Advanced",
                     <>
                         <Section title={translate("LINETOOL.SpacingVariation")}>
                             <ToolButton
                                 className={mouseToolTheme.startButton}
                                 src="coui://uil/Standard/ArrowDownThickStroke.svg"
                                 tooltip={TitledParaTooltip("LINETOOL.RandomSpacingDown", "LINETOOL_DESCRIPTION.SpacingVariation", "LINETOOL_DESCRIPTION.SpacingModifiers")}
-                                onSelect={spacingVariationDownClick}
+                                onSelect={triggers.DecreaseSpacingVariation}
                                 selected={false}
                                 multiSelect={false}
                                 disabled={false}
-                                focusKey={FocusDisabled}
+                                focusKey={FocusAuto}
                             />
-                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.SpacingVariation")}>
-                                <div className={mouseToolTheme.numberField}>{renderedSpacingVariation}</div>
-                            </Tooltip>
+                            <FocusableField focusKey="LineTool.SpacingVariation" onIncrease={triggers.IncreaseSpacingVariation} onDecrease={triggers.DecreaseSpacingVariation}>
+                                <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.SpacingVariation")}>
+                                    <NumberField
+                                        className={mouseToolTheme.numberField}
+                                        value={SpacingVariation}
+                                        rendered={renderedSpacingVariation}
+                                        min={0}
+                                        max={100}
+                                        fractionDigits={1}
+                                        scale={lengthUnits}
+                                        decimalSeparator={valueFormat.decimalSeparator}
+                                        onCommit={triggers.SetSpacingVariation}
+                                    />
+                                </Tooltip>
+                            </FocusableField>
                             <ToolButton
                                 className={mouseToolTheme.endButton}
                                 src="coui://uil/Standard/ArrowUpThickStroke.svg"
                                 tooltip={TitledParaTooltip("LINETOOL.RandomSpacingUp", "LINETOOL_DESCRIPTION.SpacingVariation", "LINETOOL_DESCRIPTION.SpacingModifiers")}
-                                onSelect={spacingVariationUpClick}
+                                onSelect={triggers.IncreaseSpacingVariation}
                                 selected={false}
                                 multiSelect={false}
                                 disabled={false}
-                                focusKey={FocusDisabled}
+                                focusKey={FocusAuto}
                                 useTooltipParagraph="true"
                             />
                         </Section>
@@ -450,29 +1664,60 @@ export const LineToolOptionsComponent = (moduleRegistry: ModuleRegistry) => (Com
                                 className={mouseToolTheme.startButton}
                                 src="coui://uil/Standard/ArrowDownThickStroke.svg"
                                 tooltip={TitledParaTooltip("LINETOOL.RandomOffsetUp", "LINETOOL_DESCRIPTION.OffsetVariation", "LINETOOL_DESCRIPTION.SpacingModifiers")}
-                                onSelect={offsetVariationDownClick}
+                                onSelect={triggers.DecreaseOffsetVariation}
                                 selected={false}
                                 multiSelect={false}
                                 disabled={false}
-                                focusKey={FocusDisabled}
+                                focusKey={FocusAuto}
                             />
-                            <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.OffsetVariation")}>
-                                <div className={mouseToolTheme.numberField}>{renderedOffsetVariation}</div>
-                            </Tooltip>
+                            <FocusableField focusKey="LineTool.OffsetVariation" onIncrease={triggers.IncreaseOffsetVariation} onDecrease={triggers.DecreaseOffsetVariation}>
+                                <Tooltip tooltip={translate("LINETOOL_DESCRIPTION.OffsetVariation")}>
+                                    <NumberField
+                                        className={mouseToolTheme.numberField}
+                                        value={OffsetVariation}
+                                        rendered={renderedOffsetVariation}
+                                        min={0}
+                                        max={100}
+                                        fractionDigits={1}
+                                        scale={lengthUnits}
+                                        decimalSeparator={valueFormat.decimalSeparator}
+                                        onCommit={triggers.SetOffsetVariation}
+                                    />
+                                </Tooltip>
+                            </FocusableField>
                             <ToolButton
                                 className={mouseToolTheme.endButton}
                                 src="coui://uil/Standard/ArrowUpThickStroke.svg"
                                 tooltip={TitledParaTooltip("LINETOOL.RandomOffsetDown", "LINETOOL_DESCRIPTION.OffsetVariation", "LINETOOL_DESCRIPTION.SpacingModifiers")}
-                                onSelect={offsetVariationUpClick}
+                                onSelect={triggers.IncreaseOffsetVariation}
                                 selected={false}
                                 multiSelect={false}
                                 disabled={false}
-                                focusKey={FocusDisabled}
+                                focusKey={FocusAuto}
                             />
                         </Section>
                     </>
-                );
+                ));
+
+                // Placement statistics rows (collapsible).
+                addRow("StatisticsHeader", FoldHeader("Statistics"));
+                addRow("Statistics", Foldable("Statistics", StatisticsSections()));
+
+                // Layout import/export rows.
+                addRow("Layout", LayoutSections());
             }
+
+            // Preset rows.
+            addRow("Presets", PresetSections());
+
+            // Degraded UI notice.
+            addRow("Degraded", DegradedSections());
+
+            result.props.children?.push(
+                <AutoNavigationScope key="LineTool" focusKey="LineTool" direction={NavigationDirection.Both} debugName="LineTool">
+                    {rows}
+                </AutoNavigationScope>
+            );
         }
 
         return result;
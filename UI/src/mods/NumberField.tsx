@@ -0,0 +1,94 @@
+import { ChangeEvent, KeyboardEvent, useEffect, useRef, useState } from "react";
+
+// Number field properties.
+export interface NumberFieldProps {
+    value: number;
+    rendered: string;
+    min: number;
+    max: number;
+    fractionDigits: number;
+    className?: string;
+    disabled?: boolean;
+
+    // Display units per value unit (e.g. feet per metre); entry is in display units. Defaults to 1.
+    scale?: number;
+
+    // Locale decimal separator shown when editing; either "." or "," is accepted on entry. Defaults to ".".
+    decimalSeparator?: string;
+    onCommit: (value: number) => void;
+}
+
+// Partial numeric entry validation (allows intermediate states such as "-" or "12.").
+const partialNumber = /^-?\d*[.,]?\d*$/;
+
+// Editable number field; displays the rendered value string until focused, when it switches to keyboard entry of the raw value.
+export const NumberField = (props: NumberFieldProps) => {
+    const [editText, setEditText] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const cancelled = useRef<boolean>(false);
+    const initialText = useRef<string>("");
+
+    // Start editing with the current raw value, in display units.
+    function beginEdit() {
+        initialText.current = (props.value * (props.scale ?? 1)).toFixed(props.fractionDigits).replace(".", props.decimalSeparator ?? ".");
+        setEditText(initialText.current);
+    }
+
+    // Select the edit text once it's displayed (on the render after editing starts), so that typing replaces it.
+    const editing: boolean = editText !== null;
+    useEffect(() => {
+        if (editing) {
+            inputRef.current?.select();
+        }
+    }, [editing]);
+
+    // Finish editing, applying any valid entry (converted from display units and clamped to range) and otherwise reverting to the current value.
+    // Unchanged text isn't applied, as the rounded (and possibly unit-converted) display value would otherwise replace the actual value.
+    function endEdit() {
+        if (!cancelled.current && editText !== null && editText !== initialText.current) {
+            const parsed: number = parseFloat(editText.replace(",", "."));
+            if (isFinite(parsed)) {
+                const value: number = parseFloat(parsed.toFixed(props.fractionDigits)) / (props.scale ?? 1);
+                props.onCommit(Math.min(props.max, Math.max(props.min, value)));
+            }
+        }
+
+        cancelled.current = false;
+        setEditText(null);
+    }
+
+    // Only accept characters that could form a valid number in this field's range.
+    function handleChange(e: ChangeEvent<HTMLInputElement>) {
+        const text: string = e.target.value;
+        if (partialNumber.test(text) && (props.min < 0 || !text.startsWith("-")) && (props.fractionDigits > 0 || !/[.,]/.test(text))) {
+            setEditText(text);
+        }
+    }
+
+    // Enter applies the entry, escape reverts it.
+    function handleKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+        if (e.key === "Enter") {
+            inputRef.current?.blur();
+        }
+        else if (e.key === "Escape") {
+            cancelled.current = true;
+            inputRef.current?.blur();
+        }
+
+        e.stopPropagation();
+    }
+
+    return (
+        <input
+            ref={inputRef}
+            type="text"
+            className={props.className}
+            value={editText ?? props.rendered}
+            disabled={props.disabled}
+            onFocus={beginEdit}
+            onBlur={endEdit}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+        />
+    );
+}
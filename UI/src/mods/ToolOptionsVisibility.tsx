@@ -1,6 +1,12 @@
 import { ModuleRegistryExtend } from "cs2/modding";
+import { useValue } from "cs2/api";
 import { tool } from "cs2/bindings";
+import { valueBindings } from "mods/Bindings";
 
 export const ToolOptionsVisibility: ModuleRegistryExtend = (Component: any) => {
-    return () => Component() || tool.activeTool$.value.id == "Line Tool";
+    return () => {
+        // Read before calling the original hook, so that the binding is always subscribed.
+        const toolID: string = useValue(valueBindings.ToolID);
+        return Component() || tool.activeTool$.value.id == toolID;
+    };
 }
\ No newline at end of file
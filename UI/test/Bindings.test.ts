@@ -0,0 +1,35 @@
+/// <reference types="node" />
+import { describe, expect, test } from "@jest/globals";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { triggerSchema, valueSchema } from "mods/Bindings";
+
+// C# UI system source, where the bindings are registered.
+const uiSystemSource: string = readFileSync(join(__dirname, "..", "..", "Code", "Systems", "LineToolUISystem.cs"), "utf8");
+
+// Registered C# value bindings (by name).
+const csValueBindings: Set<string> = new Set<string>(
+    Array.from(uiSystemSource.matchAll(/new (?:Getter)?ValueBinding<[^(]*>\("LineTool", "(\w+)"/g), (match) => match[1]));
+
+// Registered C# trigger bindings (by name), with their argument counts.
+const csTriggerBindings: Map<string, number> = new Map<string, number>(
+    Array.from(uiSystemSource.matchAll(/new TriggerBinding(?:<([^(]*)>)?\("LineTool", "(\w+)"/g), (match) => [match[2], match[1] ? match[1].split(",").length : 0]));
+
+describe("binding schema", () => {
+    test("every value binding is registered in the C# UI system", () => {
+        const missing: string[] = Object.keys(valueSchema).filter((name: string) => !csValueBindings.has(name));
+        expect(missing).toEqual([]);
+    });
+
+    test("every trigger is registered in the C# UI system", () => {
+        const missing: string[] = Object.keys(triggerSchema).filter((name: string) => !csTriggerBindings.has(name));
+        expect(missing).toEqual([]);
+    });
+
+    test("trigger argument counts match the C# UI system", () => {
+        const mismatched: string[] = Object.entries(triggerSchema)
+            .filter(([name, schema]) => csTriggerBindings.has(name) && csTriggerBindings.get(name) !== schema.arity)
+            .map(([name]) => name);
+        expect(mismatched).toEqual([]);
+    });
+});
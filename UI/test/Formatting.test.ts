@@ -0,0 +1,40 @@
+import { describe, expect, test } from "@jest/globals";
+import { feetPerMetre, formatAngle, formatLength, formatNumber, formatPercentage, lengthScale, ValueFormat } from "mods/Formatting";
+
+// Metric format with English separators.
+const metric: ValueFormat = { imperial: false, decimalSeparator: ".", groupSeparator: "," };
+
+// Imperial format with German separators.
+const imperial: ValueFormat = { imperial: true, decimalSeparator: ",", groupSeparator: "." };
+
+describe("formatNumber", () => {
+    test("applies the locale separators", () => {
+        expect(formatNumber(1234567.25, 1, metric)).toEqual("1,234,567.3");
+        expect(formatNumber(1234567.25, 1, imperial)).toEqual("1.234.567,3");
+        expect(formatNumber(999, 0, imperial)).toEqual("999");
+    });
+
+    test("signs negative values, except those that round to zero", () => {
+        expect(formatNumber(-1500, 0, metric)).toEqual("-1,500");
+        expect(formatNumber(-0.04, 1, metric)).toEqual("0.0");
+    });
+});
+
+describe("formatLength", () => {
+    test("displays metres for the metric unit system", () => {
+        expect(formatLength(12.34, 1, metric)).toEqual("12.3 m");
+        expect(lengthScale(metric)).toEqual(1);
+    });
+
+    test("displays feet for the imperial unit system", () => {
+        expect(formatLength(10, 1, imperial)).toEqual("32,8 ft");
+        expect(lengthScale(imperial)).toEqual(feetPerMetre);
+    });
+});
+
+describe("formatAngle and formatPercentage", () => {
+    test("include the unit symbol", () => {
+        expect(formatAngle(-90, metric)).toEqual("-90°");
+        expect(formatPercentage(12.5, 1, imperial)).toEqual("12,5%");
+    });
+});
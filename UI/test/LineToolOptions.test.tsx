@@ -0,0 +1,303 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals";
+import { act, create, ReactTestInstance, ReactTestRenderer } from "react-test-renderer";
+import { LineToolOptionsComponent } from "mods/LineToolOptions";
+import { resetMocks, setMockValues, triggerCalls } from "./mocks/api";
+import { FOCUS_AUTO } from "./mocks/input";
+import { createMockRegistry } from "./mocks/registry";
+
+// Line mode binding flags, by mode.
+const lineModes: Record<string, string> = {
+    straight: "StraightLineEnabled",
+    curve: "SimpleCurveEnabled",
+    circle: "CircleEnabled",
+    grid: "GridEnabled",
+    polyline: "PolylineEnabled",
+    network: "FollowNetworkEnabled",
+};
+
+// Sections shown in every line mode.
+const lineSections: string[] = [
+    "LINETOOL.LineMode",
+    "LINETOOL.Options",
+    "LINETOOL.Elevation",
+    "LINETOOL.SpacingVariation",
+    "LINETOOL.OffsetVariation",
+    "LINETOOL.PreviewCount",
+    "LINETOOL.PreviewLength",
+    "LINETOOL.PreviewSpacing",
+    "LINETOOL.PreviewCost",
+    "LINETOOL.Layout",
+    "LINETOOL.Presets",
+];
+
+// Mode-specific sections, and the modes they're shown in.
+const modeSections: Record<string, string[]> = {
+    "LINETOOL.GridRowSpacing": ["grid"],
+    "LINETOOL.GridColumns": ["grid"],
+    "LINETOOL.GridRows": ["grid"],
+    "LINETOOL.GridSize": ["grid"],
+    "LINETOOL.CirclePlacement": ["circle"],
+    "LINETOOL.CircleArcAngle": ["circle"],
+    "LINETOOL.CircleStartAngle": ["circle"],
+    "LINETOOL.ParallelRows": ["straight", "curve", "circle"],
+    "LINETOOL.NetworkSide": ["network"],
+    "LINETOOL.NetworkOffset": ["network"],
+};
+
+// Renders the tool options with the given binding values.
+function render(values: Record<string, unknown>): ReactTestRenderer {
+    resetMocks();
+    setMockValues(values);
+    const Options = LineToolOptionsComponent(createMockRegistry())(() => <div>{[]}</div>);
+    let renderer: ReactTestRenderer | undefined;
+    act(() => {
+        renderer = create(<Options />);
+    });
+
+    return renderer!;
+}
+
+// Renders the tool options in the given line mode, with any additional binding values.
+function renderLineMode(mode: string, values: Record<string, unknown> = {}): ReactTestRenderer {
+    return render({ ShowModeRow: true, [lineModes[mode]]: true, ...values });
+}
+
+// Returns the titles of all rendered sections, in order.
+function sectionTitles(renderer: ReactTestRenderer): string[] {
+    return renderer.root.findAll((node: ReactTestInstance) => node.type === "section").map((node: ReactTestInstance) => node.props.title);
+}
+
+// Returns the icon sources of all buttons rendered in the given section.
+function buttonSources(renderer: ReactTestRenderer, title: string): string[] {
+    return renderer.root.find((node: ReactTestInstance) => node.type === "section" && node.props.title === title)
+        .findAll((node: ReactTestInstance) => node.type === "button")
+        .map((node: ReactTestInstance) => node.props["data-src"]);
+}
+
+// Returns the displayed text of the value field in the given section.
+function fieldText(renderer: ReactTestRenderer, title: string): string {
+    return renderer.root.find((node: ReactTestInstance) => node.type === "section" && node.props.title === title)
+        .find((node: ReactTestInstance) => node.type === "input").props.value;
+}
+
+afterEach(() => resetMocks());
+
+describe("LineToolOptionsComponent", () => {
+    test("shows nothing when the mode row is hidden", () => {
+        expect(sectionTitles(render({}))).toEqual([]);
+    });
+
+    test("shows only the mode and preset rows in point mode", () => {
+        const renderer: ReactTestRenderer = render({ ShowModeRow: true, PointModeEnabled: true });
+        expect(sectionTitles(renderer)).toEqual(["LINETOOL.Title", "LINETOOL.Presets"]);
+        expect(buttonSources(renderer, "LINETOOL.Title")).toEqual([
+            "Media/Tools/Net Tool/Point.svg",
+            "Media/Tools/Object Tool/Line.svg",
+            "Media/Tools/Object Tool/Curve.svg",
+            "coui://uil/Standard/Circle.svg",
+            "Media/Tools/Net Tool/Grid.svg",
+            "Media/Tools/Net Tool/Continuous.svg",
+            "Media/Game/Icons/Roads.svg",
+        ]);
+    });
+
+    test("renders rows without React key warnings", () => {
+        const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+        try {
+            renderLineMode("straight");
+            expect(consoleError.mock.calls.filter((args: unknown[]) => String(args[0]).includes("unique \"key\""))).toEqual([]);
+        } finally {
+            consoleError.mockRestore();
+        }
+    });
+
+    describe.each(Object.keys(lineModes))("%s mode", (mode: string) => {
+        test("shows the common line sections", () => {
+            const titles: string[] = sectionTitles(renderLineMode(mode));
+            lineSections.forEach((title: string) => expect(titles).toContain(title));
+            expect(titles).toContain(mode === "grid" ? "LINETOOL.GridColumnSpacing" : "LINETOOL.Spacing");
+            expect(titles).toContain("LINETOOL.Rotation");
+        });
+
+        test("shows only the sections for this mode", () => {
+            const titles: string[] = sectionTitles(renderLineMode(mode));
+            Object.entries(modeSections).forEach(([title, modes]) => {
+                if (modes.includes(mode)) {
+                    expect(titles).toContain(title);
+                }
+                else {
+                    expect(titles).not.toContain(title);
+                }
+            });
+        });
+
+        test("shows the count mode button outside grid mode", () => {
+            const sources: string[] = buttonSources(renderLineMode(mode), mode === "grid" ? "LINETOOL.GridColumnSpacing" : "LINETOOL.Spacing");
+            if (mode === "grid") {
+                expect(sources).not.toContain("coui://uil/Standard/MeasureCount.svg");
+            }
+            else {
+                expect(sources).toContain("coui://uil/Standard/MeasureCount.svg");
+            }
+        });
+    });
+
+    test.each(["FenceModeEnabled", "W2WModeEnabled"])("hides spacing and rotation when %s is set", (flag: string) => {
+        const titles: string[] = sectionTitles(renderLineMode("straight", { [flag]: true }));
+        expect(titles).not.toContain("LINETOOL.Spacing");
+        expect(titles).not.toContain("LINETOOL.Rotation");
+    });
+
+    test.each(["FenceModeEnabled", "W2WModeEnabled"])("keeps rotation in grid mode when %s is set", (flag: string) => {
+        const titles: string[] = sectionTitles(renderLineMode("grid", { [flag]: true }));
+        expect(titles).not.toContain("LINETOOL.GridColumnSpacing");
+        expect(titles).toContain("LINETOOL.Rotation");
+    });
+
+    test("shows fence and wall-to-wall buttons only when available", () => {
+        const unavailable: string[] = buttonSources(renderLineMode("straight"), "LINETOOL.Options");
+        expect(unavailable).not.toContain("coui://uil/Standard/Fence.svg");
+        expect(unavailable).not.toContain("coui://uil/Standard/BoxesWallToWall.svg");
+
+        const available: string[] = buttonSources(renderLineMode("straight", { FenceModeAvailable: true, W2WModeAvailable: true }), "LINETOOL.Options");
+        expect(available).toContain("coui://uil/Standard/Fence.svg");
+        expect(available).toContain("coui://uil/Standard/BoxesWallToWall.svg");
+    });
+
+    test("shows the count row in count mode", () => {
+        expect(sectionTitles(renderLineMode("straight"))).not.toContain("LINETOOL.Count");
+        expect(sectionTitles(renderLineMode("straight", { CountModeEnabled: true }))).toContain("LINETOOL.Count");
+    });
+
+    test("shows elevation rows for the selected elevation mode", () => {
+        const fixed: string[] = sectionTitles(renderLineMode("straight", { FixedElevationEnabled: true }));
+        expect(fixed).toEqual(expect.arrayContaining(["LINETOOL.FixedElevationHeight", "LINETOOL.CurrentElevation"]));
+        expect(fixed).not.toContain("LINETOOL.Slope");
+
+        const slope: string[] = sectionTitles(renderLineMode("straight", { ConstantSlopeEnabled: true }));
+        expect(slope).toEqual(expect.arrayContaining(["LINETOOL.SlopeStartHeight", "LINETOOL.SlopeEndHeight", "LINETOOL.Slope"]));
+        expect(slope).not.toContain("LINETOOL.FixedElevationHeight");
+
+        const terrain: string[] = sectionTitles(renderLineMode("straight", { FollowTerrainEnabled: true }));
+        ["LINETOOL.FixedElevationHeight", "LINETOOL.CurrentElevation", "LINETOOL.SlopeStartHeight", "LINETOOL.SlopeEndHeight", "LINETOOL.Slope"]
+            .forEach((title: string) => expect(terrain).not.toContain(title));
+    });
+
+    test("shows the tree age row only when a tree is selected", () => {
+        expect(sectionTitles(renderLineMode("straight"))).not.toContain("LINETOOL.TreeAge");
+        expect(sectionTitles(renderLineMode("straight", { TreeSelected: true }))).toContain("LINETOOL.TreeAge");
+    });
+
+    test("shows layout messages", () => {
+        expect(sectionTitles(renderLineMode("straight", { LayoutMessage: "LINETOOL.LayoutExported" }))).toContain("LINETOOL.LayoutStatus");
+        expect(sectionTitles(renderLineMode("straight", { LayoutMessage: "LINETOOL.LayoutErrorInvalid", LayoutMessageIsError: true }))).toContain("LINETOOL.LayoutError");
+    });
+
+    test("hides the rows of collapsed sections", () => {
+        const titles: string[] = sectionTitles(renderLineMode("grid", { TreeSelected: true, CollapsedSections: ["Placement", "Objects", "Advanced", "Statistics"] }));
+        ["LINETOOL.FoldPlacement", "LINETOOL.FoldObjects", "LINETOOL.FoldAdvanced", "LINETOOL.FoldStatistics", "LINETOOL.Options", "LINETOOL.Elevation"]
+            .forEach((title: string) => expect(titles).toContain(title));
+        ["LINETOOL.GridColumnSpacing", "LINETOOL.Rotation", "LINETOOL.GridRows", "LINETOOL.TreeAge", "LINETOOL.PrefabMix", "LINETOOL.SpacingVariation", "LINETOOL.OffsetVariation", "LINETOOL.PreviewCount"]
+            .forEach((title: string) => expect(titles).not.toContain(title));
+    });
+
+    test("toggles sections from their headers", () => {
+        const renderer: ReactTestRenderer = renderLineMode("straight", { CollapsedSections: ["Advanced"] });
+        expect(buttonSources(renderer, "LINETOOL.FoldAdvanced")).toEqual(["coui://uil/Standard/ArrowDownThickStroke.svg"]);
+        expect(buttonSources(renderer, "LINETOOL.FoldPlacement")).toEqual(["coui://uil/Standard/ArrowUpThickStroke.svg"]);
+        act(() => {
+            renderer.root.find((node: ReactTestInstance) => node.type === "section" && node.props.title === "LINETOOL.FoldAdvanced")
+                .find((node: ReactTestInstance) => node.type === "button").props.onClick();
+        });
+
+        expect(triggerCalls).toEqual([{ group: "LineTool", name: "ToggleSectionCollapsed", args: ["Advanced"] }]);
+    });
+
+    test("makes every button focusable", () => {
+        const renderer: ReactTestRenderer = renderLineMode("straight", { FenceModeAvailable: true, W2WModeAvailable: true, TreeSelected: true, CountModeEnabled: true });
+        const buttons: ReactTestInstance[] = renderer.root.findAll((node: ReactTestInstance) => node.type === "button");
+        expect(buttons.length).toBeGreaterThan(0);
+        buttons.forEach((button: ReactTestInstance) => expect(button.props["data-focus-key"]).toBe(FOCUS_AUTO));
+    });
+
+    test("navigates all rows within a single scope", () => {
+        const renderer: ReactTestRenderer = renderLineMode("circle");
+        const scope: ReactTestInstance = renderer.root.find((node: ReactTestInstance) => node.props["data-scope"] === "LineTool");
+        expect(scope.findAll((node: ReactTestInstance) => node.type === "section").length).toEqual(sectionTitles(renderer).length);
+    });
+
+    test.each([
+        ["LineTool.Spacing", "IncreaseSpacing", "DecreaseSpacing"],
+        ["LineTool.Rotation", "IncreaseRotation", "DecreaseRotation"],
+        ["LineTool.SpacingVariation", "IncreaseSpacingVariation", "DecreaseSpacingVariation"],
+        ["LineTool.OffsetVariation", "IncreaseOffsetVariation", "DecreaseOffsetVariation"],
+    ])("steps the %s field with directional input", (focusKey: string, increase: string, decrease: string) => {
+        const renderer: ReactTestRenderer = renderLineMode("straight");
+        const consumer: ReactTestInstance = renderer.root.find((node: ReactTestInstance) => node.props["data-focus-key"] === focusKey)
+            .find((node: ReactTestInstance) => node.props["data-actions"] !== undefined);
+        expect(consumer.props["data-disabled"]).toBeFalsy();
+        act(() => {
+            consumer.props["data-actions"]["Change Tool Option"](1);
+            consumer.props["data-actions"]["Change Tool Option"](-1);
+        });
+
+        expect(triggerCalls.map((call) => call.name)).toEqual([increase, decrease]);
+    });
+
+    test("disables stepping of locked fields", () => {
+        const renderer: ReactTestRenderer = renderLineMode("straight", { CountModeEnabled: true, RandomRotationEnabled: true });
+        ["LineTool.Spacing", "LineTool.Rotation"].forEach((focusKey: string) => {
+            const consumer: ReactTestInstance = renderer.root.find((node: ReactTestInstance) => node.props["data-focus-key"] === focusKey)
+                .find((node: ReactTestInstance) => node.props["data-actions"] !== undefined);
+            expect(consumer.props["data-disabled"]).toBe(true);
+        });
+    });
+
+    test("displays lengths in the game's unit system and locale", () => {
+        const renderer: ReactTestRenderer = renderLineMode("straight", { Spacing: 10, ImperialUnits: true, DecimalSeparator: ",", GroupSeparator: "." });
+        expect(fieldText(renderer, "LINETOOL.Spacing")).toEqual("32,8 ft");
+    });
+
+    test("accepts typed lengths in the game's unit system", () => {
+        const renderer: ReactTestRenderer = renderLineMode("straight", { Spacing: 10, ImperialUnits: true, DecimalSeparator: "," });
+        const input: ReactTestInstance = renderer.root.find((node: ReactTestInstance) => node.type === "section" && node.props.title === "LINETOOL.Spacing")
+            .find((node: ReactTestInstance) => node.type === "input");
+        act(() => input.props.onFocus());
+        expect(input.props.value).toEqual("32,8");
+        act(() => input.props.onChange({ target: { value: "100" } }));
+        act(() => input.props.onBlur());
+
+        expect(triggerCalls.map((call) => call.name)).toEqual(["SetSpacing"]);
+        expect(triggerCalls[0].args[0]).toBeCloseTo(30.48, 2);
+    });
+
+    test("doesn't round-trip unedited lengths through the game's unit system", () => {
+        const renderer: ReactTestRenderer = renderLineMode("straight", { Spacing: 10, ImperialUnits: true });
+        const input: ReactTestInstance = renderer.root.find((node: ReactTestInstance) => node.type === "section" && node.props.title === "LINETOOL.Spacing")
+            .find((node: ReactTestInstance) => node.type === "input");
+        act(() => input.props.onFocus());
+        expect(input.props.value).toEqual("32.8");
+        act(() => input.props.onBlur());
+
+        expect(triggerCalls).toEqual([]);
+    });
+
+    test("doesn't apply a field value that wasn't edited", () => {
+        const renderer: ReactTestRenderer = renderLineMode("straight", { SpacingVariation: 0.123 });
+        const input: ReactTestInstance = renderer.root.find((node: ReactTestInstance) => node.type === "section" && node.props.title === "LINETOOL.SpacingVariation")
+            .find((node: ReactTestInstance) => node.type === "input");
+        act(() => input.props.onFocus());
+        act(() => input.props.onBlur());
+
+        expect(triggerCalls.filter((call) => call.name.startsWith("Set"))).toEqual([]);
+    });
+
+    test("sends argument-less triggers without event arguments", () => {
+        const renderer: ReactTestRenderer = render({ ShowModeRow: true, PointModeEnabled: true });
+        act(() => {
+            renderer.root.find((node: ReactTestInstance) => node.type === "button" && node.props["data-src"] === "Media/Tools/Object Tool/Line.svg").props.onClick();
+        });
+
+        expect(triggerCalls).toEqual([{ group: "LineTool", name: "SetStraightLineMode", args: [] }]);
+    });
+});
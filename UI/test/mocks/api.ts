@@ -0,0 +1,48 @@
+// Mock of the cs2/api binding module; binding values are set by tests, and triggers are recorded.
+
+// Mock value binding.
+export interface MockValueBinding<T> {
+    readonly group: string;
+    readonly name: string;
+    readonly value: T;
+}
+
+// Recorded trigger call.
+export interface TriggerCall {
+    group: string;
+    name: string;
+    args: unknown[];
+}
+
+// Current binding values (by binding name) and recorded trigger calls.
+const mockValues: Map<string, unknown> = new Map<string, unknown>();
+export const triggerCalls: TriggerCall[] = [];
+
+// Sets mock binding values; bindings without a set value return their fallback.
+export function setMockValues(values: Record<string, unknown>) {
+    Object.entries(values).forEach(([name, value]) => mockValues.set(name, value));
+}
+
+// Clears all mock binding values and recorded trigger calls.
+export function resetMocks() {
+    mockValues.clear();
+    triggerCalls.length = 0;
+}
+
+export function bindValue<T>(group: string, name: string, fallbackValue?: T): MockValueBinding<T> {
+    return {
+        group: group,
+        name: name,
+        get value(): T {
+            return (mockValues.has(name) ? mockValues.get(name) : fallbackValue) as T;
+        },
+    };
+}
+
+export function useValue<T>(binding: MockValueBinding<T>): T {
+    return binding.value;
+}
+
+export function trigger(group: string, name: string, ...args: unknown[]) {
+    triggerCalls.push({ group: group, name: name, args: args });
+}
@@ -0,0 +1,4 @@
+// Mock of the cs2/bindings module.
+export const tool = {
+    activeTool$: { value: { id: "" } },
+};
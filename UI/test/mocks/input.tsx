@@ -0,0 +1,27 @@
+import { PropsWithChildren } from "react";
+
+// Mock of the cs2/input focus and input action module.
+export const FOCUS_DISABLED = { debugName: "FOCUS_DISABLED" };
+export const FOCUS_AUTO = { debugName: "FOCUS_AUTO" };
+
+export enum NavigationDirection {
+    Horizontal = "horizontal",
+    Vertical = "vertical",
+    Both = "both",
+    None = "none"
+}
+
+// Navigation scopes are rendered as a div with the scope focus key.
+export const AutoNavigationScope = (props: PropsWithChildren<{ focusKey?: unknown, direction?: NavigationDirection }>) => (
+    <div data-scope={props.focusKey} data-direction={props.direction}>{props.children}</div>
+);
+
+// Focusable divs are rendered as a div with the focus key.
+export const ActiveFocusDiv = (props: PropsWithChildren<{ focusKey?: unknown, onFocusChange?: (focused: boolean) => void }>) => (
+    <div data-focus-key={props.focusKey} data-on-focus-change={props.onFocusChange}>{props.children}</div>
+);
+
+// Input action consumers are rendered as a div holding the consumed actions.
+export const InputActionConsumer = (props: PropsWithChildren<{ actions: Record<string, unknown> | null, disabled?: boolean }>) => (
+    <div data-actions={props.actions} data-disabled={props.disabled}>{props.children}</div>
+);
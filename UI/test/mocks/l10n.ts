@@ -0,0 +1,6 @@
+// Mock of the cs2/l10n localization module; translations return the localization key.
+export function useLocalization() {
+    return {
+        translate: (id: string, fallback?: string | null) => id,
+    };
+}
@@ -0,0 +1,32 @@
+import { ModuleRegistry } from "cs2/modding";
+import { PropsWithChildren, ReactNode } from "react";
+import { modulePaths } from "mods/Compatibility";
+import { FOCUS_AUTO, FOCUS_DISABLED } from "./input";
+
+// Mock game tool options section; rendered as a section element with the section title.
+export const MockSection = (props: PropsWithChildren<{ title?: ReactNode }>) => (
+    <section title={props.title as string}>{props.children}</section>
+);
+
+// Mock game tool button; rendered as a button element with the icon source.
+export const MockToolButton = (props: { src: string, onSelect?: (e?: unknown) => void, selected?: boolean, disabled?: boolean, focusKey?: unknown }) => (
+    <button data-src={props.src} data-selected={props.selected} data-focus-key={props.focusKey} disabled={props.disabled} onClick={() => props.onSelect?.({ type: "click" })} />
+);
+
+// Creates a mock module registry containing all of the game UI modules used by Line Tool.
+export function createMockRegistry(): ModuleRegistry {
+    const modules: [string, Record<string, any>][] = [
+        [modulePaths.mouseToolOptions, { Section: MockSection, MouseToolOptions: () => null }],
+        [modulePaths.toolButton, { ToolButton: MockToolButton }],
+        [modulePaths.focusKey, { FOCUS_DISABLED: FOCUS_DISABLED, FOCUS_AUTO: FOCUS_AUTO }],
+        [modulePaths.toolButtonTheme, { classes: { button: "button" } }],
+        [modulePaths.mouseToolTheme, { classes: { numberField: "numberField", startButton: "startButton", endButton: "endButton" } }],
+        [modulePaths.descriptionTooltipTheme, { classes: { title: "title", content: "content" } }],
+        [modulePaths.toolOptionsPanel, { useToolOptionsVisible: () => false }],
+    ];
+
+    return {
+        registry: new Map(modules),
+        extend: () => { },
+    } as unknown as ModuleRegistry;
+}
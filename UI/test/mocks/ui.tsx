@@ -0,0 +1,10 @@
+import { PropsWithChildren, ReactNode } from "react";
+
+// Mock of the cs2/ui component module.
+export const Button = (props: PropsWithChildren<{ src?: string, onSelect?: () => void, selected?: boolean, disabled?: boolean }>) => (
+    <button data-src={props.src} data-selected={props.selected} disabled={props.disabled} onClick={props.onSelect}>{props.children}</button>
+);
+
+export const Tooltip = (props: PropsWithChildren<{ tooltip: ReactNode }>) => (
+    <>{props.children}</>
+);
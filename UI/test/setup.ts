@@ -0,0 +1,4 @@
+// Enables React act() support for react-test-renderer.
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+export {};